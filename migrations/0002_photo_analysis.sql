@@ -0,0 +1,34 @@
+-- Migration number: 0002 	 2026-10-19T09:00:00.000Z
+CREATE TABLE IF NOT EXISTS users (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  email TEXT UNIQUE NOT NULL,
+  name TEXT,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- One row per Google Photos media item a user has analyzed
+CREATE TABLE IF NOT EXISTS photos (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  media_item_id TEXT NOT NULL,
+  filename TEXT,
+  mime_type TEXT,
+  creation_time DATETIME,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (user_id, media_item_id)
+);
+
+-- Analyzer output as JSON; a new analyzer version gets a fresh row so stale
+-- results are re-analyzed rather than reused
+CREATE TABLE IF NOT EXISTS analysis_results (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  photo_id INTEGER NOT NULL REFERENCES photos(id) ON DELETE CASCADE,
+  analyzer_version TEXT NOT NULL,
+  overall_score REAL NOT NULL,
+  result_json TEXT NOT NULL,
+  analyzed_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (photo_id, analyzer_version)
+);
+
+CREATE INDEX idx_photos_user_id ON photos(user_id);
+CREATE INDEX idx_analysis_results_photo_id ON analysis_results(photo_id);
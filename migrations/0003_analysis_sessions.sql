@@ -0,0 +1,23 @@
+-- Migration number: 0003 	 2026-10-19T10:00:00.000Z
+-- A named photo set with the user's curation state. Results are not copied
+-- here; they are joined from analysis_results at the current analyzer version.
+CREATE TABLE IF NOT EXISTS analysis_sessions (
+  id TEXT PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  selected_photo_ids TEXT NOT NULL DEFAULT '[]',
+  cluster_picks TEXT NOT NULL DEFAULT '{}',
+  album_json TEXT,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS session_photos (
+  session_id TEXT NOT NULL REFERENCES analysis_sessions(id) ON DELETE CASCADE,
+  photo_id INTEGER NOT NULL REFERENCES photos(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  base_url TEXT NOT NULL,
+  PRIMARY KEY (session_id, photo_id)
+);
+
+CREATE INDEX idx_analysis_sessions_user_id ON analysis_sessions(user_id, updated_at);
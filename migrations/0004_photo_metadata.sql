@@ -0,0 +1,4 @@
+-- Migration number: 0004 	 2026-10-19T11:00:00.000Z
+-- Camera metadata (EXIF or Google's media metadata) as JSON, so reopened
+-- sessions can still sort, filter and score by capture settings
+ALTER TABLE photos ADD COLUMN metadata_json TEXT;
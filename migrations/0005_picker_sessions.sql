@@ -0,0 +1,5 @@
+-- Migration number: 0005 	 2026-10-19T12:00:00.000Z
+-- Picker session each photo was picked in. Picked items can only be read
+-- back through their session, so reopened sessions refresh expired baseUrls
+-- by listing it again.
+ALTER TABLE session_photos ADD COLUMN picker_session_id TEXT;
@@ -0,0 +1,77 @@
+"""
+Fetch the NIMA aesthetic model and convert it for the browser.
+
+Downloads idealo's MobileNet NIMA weights (trained on AVA), rebuilds the
+network they belong to, and writes a TensorFlow.js graph model (model.json
+plus weight shards) to public/models/nima, next to the face-api.js weights.
+
+Requirements: Python 3.9-3.11 with
+    pip install "tensorflow>=2.13,<2.16" tensorflowjs
+
+Usage (from the repository root):
+    npm run models:nima
+"""
+
+import os
+import subprocess
+import sys
+import tempfile
+import urllib.request
+
+import tensorflow as tf
+
+WEIGHTS_URL = (
+    "https://github.com/idealo/image-quality-assessment/raw/master/"
+    "models/MobileNet/weights_mobilenet_aesthetic_0.07.hdf5"
+)
+OUTPUT_DIR = os.path.join(os.path.dirname(__file__), "..", "public", "models", "nima")
+
+# Must match NIMA_INPUT_SIZE in src/lib/analysis/nima.ts
+INPUT_SIZE = 224
+
+
+def build_model() -> tf.keras.Model:
+    # Same layers as idealo's training setup: MobileNet features, dropout and
+    # a 10-bucket softmax head. Preprocessing (scaling to [-1, 1]) happens in
+    # the app, so the graph takes already scaled input.
+    base = tf.keras.applications.MobileNet(
+        input_shape=(INPUT_SIZE, INPUT_SIZE, 3),
+        include_top=False,
+        pooling="avg",
+        weights=None,
+    )
+    x = tf.keras.layers.Dropout(0.75)(base.output)
+    output = tf.keras.layers.Dense(10, activation="softmax")(x)
+    return tf.keras.Model(base.input, output)
+
+
+def main() -> int:
+    with tempfile.TemporaryDirectory() as work_dir:
+        weights_path = os.path.join(work_dir, "weights.hdf5")
+        print(f"Downloading {WEIGHTS_URL}")
+        urllib.request.urlretrieve(WEIGHTS_URL, weights_path)
+
+        model = build_model()
+        model.load_weights(weights_path)
+
+        saved_model_dir = os.path.join(work_dir, "saved_model")
+        tf.saved_model.save(model, saved_model_dir)
+
+        os.makedirs(OUTPUT_DIR, exist_ok=True)
+        subprocess.run(
+            [
+                "tensorflowjs_converter",
+                "--input_format=tf_saved_model",
+                "--output_format=tfjs_graph_model",
+                saved_model_dir,
+                OUTPUT_DIR,
+            ],
+            check=True,
+        )
+
+    print(f"Wrote model.json and weight shards to {os.path.normpath(OUTPUT_DIR)}")
+    return 0
+
+
+if __name__ == "__main__":
+    sys.exit(main())
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { ANALYZER_VERSION } from "@/lib/analysis/version";
+import { getSessionUser } from "@/lib/auth";
+import { ensureUser, getDB } from "@/lib/db";
+import { getAnalysisResults } from "@/lib/db/analysis-results";
+import { readJsonBody } from "@/lib/json-body";
+
+// Fetch current-version results for a set of media items. A POST so large
+// selections don't overflow the URL.
+export async function POST(request: Request) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const photoIds = (await readJsonBody<{ photoIds?: string[] }>(request))?.photoIds;
+  if (!Array.isArray(photoIds) || photoIds.some(id => typeof id !== "string")) {
+    return NextResponse.json({ error: "Expected photoIds: string[]" }, { status: 400 });
+  }
+
+  try {
+    const db = await getDB();
+    const userId = await ensureUser(db, user.email, user.name);
+    const results = await getAnalysisResults(db, userId, photoIds, ANALYZER_VERSION);
+    return NextResponse.json({ analyzerVersion: ANALYZER_VERSION, results });
+  } catch (error) {
+    console.error("Error fetching analysis results:", error);
+    return NextResponse.json({ error: "Failed to fetch analysis results" }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { ANALYZER_VERSION } from "@/lib/analysis/version";
+import { getSessionUser } from "@/lib/auth";
+import { ensureUser, getDB } from "@/lib/db";
+import { saveAnalysisResults, type StoredAnalysis } from "@/lib/db/analysis-results";
+import { readJsonBody } from "@/lib/json-body";
+
+// Save analysis results for the signed-in user
+export async function POST(request: Request) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const entries = (await readJsonBody<{ entries?: StoredAnalysis[] }>(request))?.entries;
+  if (!Array.isArray(entries) || entries.some(entry => !entry?.photo?.id || entry.result?.photoId !== entry.photo.id)) {
+    return NextResponse.json({ error: "Expected entries of { photo, result }" }, { status: 400 });
+  }
+
+  try {
+    const db = await getDB();
+    const userId = await ensureUser(db, user.email, user.name);
+    await saveAnalysisResults(db, userId, entries, ANALYZER_VERSION);
+    return NextResponse.json({ saved: entries.length });
+  } catch (error) {
+    console.error("Error saving analysis results:", error);
+    return NextResponse.json({ error: "Failed to save analysis results" }, { status: 500 });
+  }
+}
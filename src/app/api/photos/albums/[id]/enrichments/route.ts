@@ -0,0 +1,31 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { readJsonBody } from "@/lib/json-body";
+import { addTextEnrichment } from "@/lib/photos/library-api";
+import { proxyPhotosCall } from "@/lib/photos/proxy";
+import type { EnrichmentPosition } from "@/lib/photos/types";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Google's limit on text enrichment length
+const MAX_TEXT_LENGTH = 1000;
+
+function isPosition(value: unknown): value is EnrichmentPosition {
+  const position = value as EnrichmentPosition | undefined;
+  return position?.position === "FIRST_IN_ALBUM" || position?.position === "LAST_IN_ALBUM" ||
+    (position?.position === "AFTER_MEDIA_ITEM" && typeof position.relativeMediaItemId === "string");
+}
+
+// Add a text enrichment (a header or caption) to an album the app created
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const { text, albumPosition } = await readJsonBody<{ text?: string; albumPosition?: unknown }>(request) ?? {};
+  if (!text?.trim() || text.length > MAX_TEXT_LENGTH || !isPosition(albumPosition)) {
+    return NextResponse.json({ error: "Expected text and an album position" }, { status: 400 });
+  }
+
+  return proxyPhotosCall(request, async accessToken => {
+    await addTextEnrichment(accessToken, id, text.trim(), albumPosition);
+    return { added: true };
+  });
+}
@@ -0,0 +1,53 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { readJsonBody } from "@/lib/json-body";
+import { batchAddMediaItems, batchRemoveMediaItems, listAlbumMediaItemIds } from "@/lib/photos/library-api";
+import { proxyPhotosCall } from "@/lib/photos/proxy";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Library API limit for batchAddMediaItems and batchRemoveMediaItems
+const MAX_IDS = 50;
+
+async function readMediaItemIds(request: NextRequest): Promise<string[] | null> {
+  const mediaItemIds = (await readJsonBody<{ mediaItemIds?: string[] }>(request))?.mediaItemIds;
+  return Array.isArray(mediaItemIds) && mediaItemIds.length > 0 && mediaItemIds.length <= MAX_IDS
+    ? mediaItemIds
+    : null;
+}
+
+// Ids of the media items already in an album the app created
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return proxyPhotosCall(request, async accessToken => ({
+    mediaItemIds: await listAlbumMediaItemIds(accessToken, id)
+  }));
+}
+
+// Add up to 50 media items to an album the app created
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const mediaItemIds = await readMediaItemIds(request);
+  if (!mediaItemIds) {
+    return NextResponse.json({ error: `Expected 1-${MAX_IDS} mediaItemIds` }, { status: 400 });
+  }
+
+  return proxyPhotosCall(request, async accessToken => {
+    await batchAddMediaItems(accessToken, id, mediaItemIds);
+    return { added: mediaItemIds.length };
+  });
+}
+
+// Remove up to 50 media items from an album the app created
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const mediaItemIds = await readMediaItemIds(request);
+  if (!mediaItemIds) {
+    return NextResponse.json({ error: `Expected 1-${MAX_IDS} mediaItemIds` }, { status: 400 });
+  }
+
+  return proxyPhotosCall(request, async accessToken => {
+    await batchRemoveMediaItems(accessToken, id, mediaItemIds);
+    return { removed: mediaItemIds.length };
+  });
+}
@@ -0,0 +1,21 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { readJsonBody } from "@/lib/json-body";
+import { setAlbumCover } from "@/lib/photos/library-api";
+import { proxyPhotosCall } from "@/lib/photos/proxy";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Update an album the app created; only the cover photo can be changed
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const coverPhotoMediaItemId = (await readJsonBody<{ coverPhotoMediaItemId?: string }>(request))?.coverPhotoMediaItemId;
+  if (!coverPhotoMediaItemId) {
+    return NextResponse.json({ error: "Expected coverPhotoMediaItemId" }, { status: 400 });
+  }
+
+  return proxyPhotosCall(request, async accessToken => {
+    await setAlbumCover(accessToken, id, coverPhotoMediaItemId);
+    return { coverPhotoMediaItemId };
+  });
+}
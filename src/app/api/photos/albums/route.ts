@@ -0,0 +1,22 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { readJsonBody } from "@/lib/json-body";
+import { createAlbum, listAppCreatedAlbums } from "@/lib/photos/library-api";
+import { proxyPhotosCall } from "@/lib/photos/proxy";
+
+// Albums the app created, the only ones it may add photos to
+export async function GET(request: NextRequest) {
+  return proxyPhotosCall(request, async accessToken => ({
+    albums: await listAppCreatedAlbums(accessToken)
+  }));
+}
+
+// Create an album in the user's library
+export async function POST(request: NextRequest) {
+  const title = (await readJsonBody<{ title?: string }>(request))?.title;
+  if (!title?.trim()) {
+    return NextResponse.json({ error: "Expected an album title" }, { status: 400 });
+  }
+
+  return proxyPhotosCall(request, accessToken => createAlbum(accessToken, title.trim()));
+}
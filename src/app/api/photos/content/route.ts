@@ -0,0 +1,62 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getGoogleAccess } from "@/lib/auth";
+import { rateLimit } from "@/lib/rate-limit";
+
+// Hosts Google serves picked media from. Other googleusercontent.com hosts
+// serve user-controlled content and must never see the user's token.
+const MEDIA_HOSTS = new Set(["lh3.googleusercontent.com"]);
+
+// Media fetches allowed per user per minute; the grid and the analyzer each
+// load every photo once, so this is higher than the API call limit
+const MEDIA_FETCHES_PER_MINUTE = 600;
+
+// A local Picker stub may serve media from its own origin
+function isAllowedContentUrl(url: URL): boolean {
+  if (url.protocol === "https:" && MEDIA_HOSTS.has(url.hostname)) {
+    return true;
+  }
+  const stubUrl = process.env.GOOGLE_PHOTOS_PICKER_API_URL;
+  return Boolean(stubUrl) && url.origin === new URL(stubUrl as string).origin;
+}
+
+/**
+ * Stream a picked photo's bytes (GET /api/photos/content?url=<baseUrl=size>).
+ * Picker baseUrls require the user's token, which stays server-side, and
+ * serving them same-origin keeps canvases readable for analysis.
+ */
+export async function GET(request: NextRequest) {
+  const rawUrl = request.nextUrl.searchParams.get("url");
+  let url: URL;
+  try {
+    url = new URL(rawUrl ?? "");
+  } catch {
+    return NextResponse.json({ error: "Expected a media url" }, { status: 400 });
+  }
+  if (!isAllowedContentUrl(url)) {
+    return NextResponse.json({ error: "Not a Google Photos media url" }, { status: 400 });
+  }
+
+  const access = await getGoogleAccess(request);
+  if (!access) {
+    return NextResponse.json({ error: "Google access expired, sign in again" }, { status: 401 });
+  }
+
+  if (!rateLimit(`photos-content:${access.userKey}`, MEDIA_FETCHES_PER_MINUTE, 60_000)) {
+    return NextResponse.json({ error: "Too many Google Photos requests, try again shortly" }, { status: 429 });
+  }
+
+  const response = await fetch(url, {
+    headers: { "Authorization": `Bearer ${access.accessToken}` }
+  });
+  if (!response.ok || !response.body) {
+    return NextResponse.json({ error: `Failed to fetch media: ${response.statusText}` }, { status: response.status || 502 });
+  }
+
+  return new NextResponse(response.body, {
+    headers: {
+      "Content-Type": response.headers.get("Content-Type") ?? "application/octet-stream",
+      // baseUrls expire after about an hour; never share across users
+      "Cache-Control": "private, max-age=3000"
+    }
+  });
+}
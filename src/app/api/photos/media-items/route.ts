@@ -0,0 +1,19 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { batchGetMediaItems } from "@/lib/photos/library-api";
+import { proxyPhotosCall } from "@/lib/photos/proxy";
+
+// Library API limit for mediaItems:batchGet
+const MAX_IDS = 50;
+
+// Look up media items by id: GET /api/photos/media-items?ids=a&ids=b
+export async function GET(request: NextRequest) {
+  const ids = request.nextUrl.searchParams.getAll("ids");
+  if (ids.length === 0 || ids.length > MAX_IDS) {
+    return NextResponse.json({ error: `Expected 1-${MAX_IDS} ids` }, { status: 400 });
+  }
+
+  return proxyPhotosCall(request, async accessToken => ({
+    mediaItems: await batchGetMediaItems(accessToken, ids)
+  }));
+}
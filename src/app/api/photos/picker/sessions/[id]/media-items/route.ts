@@ -0,0 +1,13 @@
+import type { NextRequest } from "next/server";
+import { listPickedPhotos } from "@/lib/photos/picker-api";
+import { proxyPhotosCall } from "@/lib/photos/proxy";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Photos picked in a session, ready for analysis
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return proxyPhotosCall(request, async accessToken => ({
+    photos: await listPickedPhotos(accessToken, id)
+  }));
+}
@@ -0,0 +1,20 @@
+import type { NextRequest } from "next/server";
+import { deletePickerSession, getPickerSession } from "@/lib/photos/picker-api";
+import { proxyPhotosCall } from "@/lib/photos/proxy";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Poll a Picker session until the user has finished picking
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return proxyPhotosCall(request, accessToken => getPickerSession(accessToken, id));
+}
+
+// Clean up a Picker session once its items have been read
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return proxyPhotosCall(request, async accessToken => {
+    await deletePickerSession(accessToken, id);
+    return { deleted: id };
+  });
+}
@@ -0,0 +1,8 @@
+import type { NextRequest } from "next/server";
+import { createPickerSession } from "@/lib/photos/picker-api";
+import { proxyPhotosCall } from "@/lib/photos/proxy";
+
+// Start a Photos Picker session; the browser opens its pickerUri
+export async function POST(request: NextRequest) {
+  return proxyPhotosCall(request, accessToken => createPickerSession(accessToken));
+}
@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server";
+import { ANALYZER_VERSION } from "@/lib/analysis/version";
+import { getSessionUser } from "@/lib/auth";
+import { ensureUser, getDB } from "@/lib/db";
+import { deleteSession, getSession, updateSession } from "@/lib/db/sessions";
+import { readJsonBody } from "@/lib/json-body";
+import type { AnalysisSessionState } from "@/lib/sessions/types";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Reopen a session with its photos, stored results and curation state
+export async function GET(_request: Request, { params }: RouteContext) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  try {
+    const db = await getDB();
+    const userId = await ensureUser(db, user.email, user.name);
+    const session = await getSession(db, userId, id, ANALYZER_VERSION);
+    if (!session) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+    return NextResponse.json({ session });
+  } catch (error) {
+    console.error("Error fetching session:", error);
+    return NextResponse.json({ error: "Failed to fetch session" }, { status: 500 });
+  }
+}
+
+// Rename a session or save its curation state
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const changes = await readJsonBody<Partial<AnalysisSessionState> & { name?: string }>(request);
+  if (!changes) {
+    return NextResponse.json({ error: "Expected a JSON object of changes" }, { status: 400 });
+  }
+  if (changes.name !== undefined && !changes.name.trim()) {
+    return NextResponse.json({ error: "Session name cannot be empty" }, { status: 400 });
+  }
+
+  try {
+    const db = await getDB();
+    const userId = await ensureUser(db, user.email, user.name);
+    const updated = await updateSession(db, userId, id, {
+      name: changes.name?.trim(),
+      selectedPhotoIds: changes.selectedPhotoIds,
+      clusterPicks: changes.clusterPicks,
+      album: changes.album
+    });
+    if (!updated) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+    return NextResponse.json({ id });
+  } catch (error) {
+    console.error("Error updating session:", error);
+    return NextResponse.json({ error: "Failed to update session" }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  try {
+    const db = await getDB();
+    const userId = await ensureUser(db, user.email, user.name);
+    const deleted = await deleteSession(db, userId, id);
+    if (!deleted) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error("Error deleting session:", error);
+    return NextResponse.json({ error: "Failed to delete session" }, { status: 500 });
+  }
+}
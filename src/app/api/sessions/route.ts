@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { ANALYZER_VERSION } from "@/lib/analysis/version";
+import { getSessionUser } from "@/lib/auth";
+import { ensureUser, getDB } from "@/lib/db";
+import { createSession, listSessions } from "@/lib/db/sessions";
+import { readJsonBody } from "@/lib/json-body";
+import type { SelectedPhoto } from "@/lib/photos/types";
+
+// List the signed-in user's analysis sessions
+export async function GET() {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  try {
+    const db = await getDB();
+    const userId = await ensureUser(db, user.email, user.name);
+    const sessions = await listSessions(db, userId, ANALYZER_VERSION);
+    return NextResponse.json({ sessions });
+  } catch (error) {
+    console.error("Error listing sessions:", error);
+    return NextResponse.json({ error: "Failed to list sessions" }, { status: 500 });
+  }
+}
+
+// Start a session for a newly selected photo set
+export async function POST(request: Request) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const { name, photos } = await readJsonBody<{ name?: string; photos?: SelectedPhoto[] }>(request) ?? {};
+  if (!name?.trim() || !Array.isArray(photos) || photos.some(photo => !photo?.id || !photo.baseUrl)) {
+    return NextResponse.json({ error: "Expected a name and photos" }, { status: 400 });
+  }
+
+  try {
+    const db = await getDB();
+    const userId = await ensureUser(db, user.email, user.name);
+    const id = await createSession(db, userId, name.trim(), photos);
+    return NextResponse.json({ id }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating session:", error);
+    return NextResponse.json({ error: "Failed to create session" }, { status: 500 });
+  }
+}
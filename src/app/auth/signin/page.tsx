@@ -0,0 +1,125 @@
+"use client";
+
+import { Suspense, useEffect } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { signIn, useSession } from "next-auth/react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { GOOGLE_SCOPES } from "@/lib/photos/scopes";
+
+// Explanations for the error codes NextAuth and Google put in the query
+const ERROR_MESSAGES: Record<string, { title: string; description: string }> = {
+  access_denied: {
+    title: "Access was declined",
+    description: "You cancelled the Google consent screen. The app needs the permissions below to analyze your photos."
+  },
+  AccessDenied: {
+    title: "Access was declined",
+    description: "You cancelled the Google consent screen. The app needs the permissions below to analyze your photos."
+  },
+  MissingScope: {
+    title: "Some permissions were not granted",
+    description: "Google lets you untick individual permissions. The app cannot work without the ones marked below."
+  },
+  OAuthSignin: {
+    title: "Could not start Google sign-in",
+    description: "Please try again in a moment."
+  },
+  OAuthCallback: {
+    title: "Google sign-in did not complete",
+    description: "Google returned an error while signing you in. Please try again."
+  },
+  Callback: {
+    title: "Google sign-in did not complete",
+    description: "Something went wrong after Google signed you in. Please try again."
+  }
+};
+
+const DEFAULT_ERROR = {
+  title: "Sign-in failed",
+  description: "Something went wrong while signing you in. Please try again."
+};
+
+/**
+ * SignInCard component that explains each requested Google scope and
+ * recovers from declined or partial consent
+ */
+function SignInCard() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { status } = useSession();
+
+  const error = searchParams.get("error");
+  const callbackUrl = searchParams.get("callbackUrl") ?? "/";
+  const missing = new Set(searchParams.getAll("scope"));
+  const errorMessage = error ? ERROR_MESSAGES[error] ?? DEFAULT_ERROR : null;
+
+  // Nothing to do here once signed in
+  useEffect(() => {
+    if (status === "authenticated" && !error) {
+      router.replace(callbackUrl);
+    }
+  }, [status, error, callbackUrl, router]);
+
+  // Always show the consent screen so previously unticked scopes can be granted
+  const signInWithGoogle = () => signIn("google", { callbackUrl }, { prompt: "consent" });
+
+  return (
+    <Card className="w-full max-w-lg">
+      <CardHeader>
+        <CardTitle>Sign in with Google</CardTitle>
+        <CardDescription>
+          The app asks Google for the following permissions. Keep all of them ticked on the
+          consent screen.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {errorMessage && (
+          <Alert variant="destructive">
+            <AlertTitle>{errorMessage.title}</AlertTitle>
+            <AlertDescription>{errorMessage.description}</AlertDescription>
+          </Alert>
+        )}
+
+        <ul className="space-y-3">
+          {GOOGLE_SCOPES.map(scope => (
+            <li
+              key={scope.scope}
+              className={`rounded-md border p-3 ${missing.has(scope.scope) ? "border-red-500" : ""}`}
+            >
+              <p className="font-medium">
+                {scope.label}
+                {missing.has(scope.scope) && (
+                  <span className="ml-2 text-sm text-red-600">not granted</span>
+                )}
+              </p>
+              <p className="text-sm text-gray-500">{scope.reason}</p>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+      <CardFooter className="flex flex-col gap-2">
+        <Button className="w-full" onClick={signInWithGoogle}>
+          {error ? "Grant access again" : "Continue with Google"}
+        </Button>
+        {error && (
+          <Button variant="ghost" className="w-full" onClick={() => router.push("/")}>
+            Back to the app
+          </Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
+
+export default function SignInPage() {
+  return (
+    <main className="container mx-auto py-8 px-4 flex justify-center">
+      {/* useSearchParams needs a Suspense boundary to prerender */}
+      <Suspense fallback={<p>Loading...</p>}>
+        <SignInCard />
+      </Suspense>
+    </main>
+  );
+}
@@ -1,11 +1,45 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { useSession } from "next-auth/react";
 import { PhotoPicker } from "@/components/photos/photo-picker";
+import { LocalImport } from "@/components/photos/local-import";
+import { RepickPrompt } from "@/components/photos/repick-prompt";
 import { AlbumCreator } from "@/components/photos/album-creator";
 import { LoginButton } from "@/components/auth/login-button";
+import { ReauthPrompt } from "@/components/auth/reauth-prompt";
+import { CurationRulesEditor } from "@/components/analysis/curation-rules-editor";
+import { MetadataViewControls } from "@/components/analysis/metadata-view-controls";
+import { ResultsGrid } from "@/components/analysis/results-grid";
+import { ScoringProfileEditor } from "@/components/analysis/scoring-profile-editor";
+import { SessionHistory } from "@/components/sessions/session-history";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { useAnalysisSessions } from "@/hooks/use-analysis-sessions";
+import { useCurationRules } from "@/hooks/use-curation-rules";
+import { useScoringProfiles } from "@/hooks/use-scoring-profiles";
+import {
+  clusterNearDuplicates,
+  curatePhotos,
+  diversifyRanking,
+  rankResults,
+  type AnalysisResult,
+  type CurationOutcome,
+  type CurationRules,
+  type DuplicateCluster,
+} from "@/lib/analysis";
+import { revokeLocalPhotos } from "@/lib/photos/local-files";
+import { onRepickNeeded } from "@/lib/photos/media-urls";
+import { fillColorSignatures } from "@/lib/photos/stored-results";
+import {
+  applyMetadataView,
+  EMPTY_METADATA_FILTER,
+  type MetadataFilter,
+  type MetadataSortKey,
+} from "@/lib/photos/metadata";
+import type { Album, SelectedPhoto } from "@/lib/photos/types";
 import dynamic from 'next/dynamic';
 
 // Dynamically import PhotoAnalyzer, disabling SSR and adding a loading indicator
@@ -17,57 +51,276 @@ const PhotoAnalyzer = dynamic(
   }
 );
 
-// Define types for selected photos and analysis results
-interface SelectedPhoto {
-  id: string;
-  baseUrl: string;
-  filename: string;
-  mimeType: string;
+// localStorage key of the session to reopen after a refresh
+const CURRENT_SESSION_KEY = "current-analysis-session";
+
+// Cluster near-duplicate results, using capture time to catch bursts
+function buildClusters(results: AnalysisResult[], photos: SelectedPhoto[]): DuplicateCluster[] {
+  const captureTimes = new Map(photos.map(photo => [
+    photo.id,
+    photo.creationTime ? Date.parse(photo.creationTime) : undefined
+  ]));
+  
+  return clusterNearDuplicates(results.map(result => ({
+    photoId: result.photoId,
+    perceptualHash: result.perceptualHash,
+    overallScore: result.overallScore,
+    capturedAt: captureTimes.get(result.photoId)
+  })));
 }
 
-interface AnalysisResult {
-  photoId: string;
-  technicalQuality: {
-    blurScore: number;
-    noiseScore: number;
-    exposureScore: number;
-    overallScore: number;
-  };
-  aesthetics: {
-    meanScore: number;
-    scoreDistribution: number[];
-  };
-  faceExpressions: {
-    faceCount: number;
-    expressions: any[];
-    bestExpressionScore: number;
-  };
-  overallScore: number;
+// Re-rank scored results so similar scenes do not crowd the top, trading
+// score against colour, composition and capture-time similarity
+function diversify(results: AnalysisResult[], photos: SelectedPhoto[], diversity: number): AnalysisResult[] {
+  const photoById = new Map(photos.map(photo => [photo.id, photo]));
+
+  return diversifyRanking(results.map(result => {
+    const creationTime = photoById.get(result.photoId)?.creationTime;
+    return {
+      photoId: result.photoId,
+      overallScore: result.overallScore,
+      colorSignature: result.colorSignature,
+      subjectBox: result.technicalQuality.subjectRegions[0]?.box,
+      faceCount: result.faceExpressions.faceCount,
+      capturedAt: creationTime ? Date.parse(creationTime) : undefined,
+      result
+    };
+  }), diversity).map(candidate => candidate.result);
+}
+
+// Select photos by the curation rules; results are expected ranked best first
+function curate(
+  results: AnalysisResult[],
+  clusters: DuplicateCluster[],
+  photos: SelectedPhoto[],
+  rules: CurationRules
+): CurationOutcome {
+  const photoById = new Map(photos.map(photo => [photo.id, photo]));
+  const clusterIdByPhotoId = new Map(
+    clusters.flatMap(cluster => cluster.photoIds.map(photoId => [photoId, cluster.id] as const))
+  );
+
+  return curatePhotos(results.map(result => {
+    const creationTime = photoById.get(result.photoId)?.creationTime;
+    return {
+      photoId: result.photoId,
+      overallScore: result.overallScore,
+      sharpness: result.technicalQuality.blurScore,
+      faceCount: result.faceExpressions.faceCount,
+      capturedAt: creationTime ? Date.parse(creationTime) : undefined,
+      clusterId: clusterIdByPhotoId.get(result.photoId)
+    };
+  }), rules);
+}
+
+// Show the curated frame of each cluster it picked from instead of the best one
+function picksForSelection(clusters: DuplicateCluster[], selectedIds: string[]): Record<string, string> {
+  const selected = new Set(selectedIds);
+  return Object.fromEntries(clusters.flatMap(cluster => {
+    const picked = cluster.photoIds.find(id => selected.has(id));
+    return picked && picked !== cluster.bestPhotoId ? [[cluster.id, picked]] : [];
+  }));
 }
 
 export default function Home() {
   const { data: session } = useSession();
+  const scoringProfiles = useScoringProfiles(session?.user?.email);
+  const { activeProfile } = scoringProfiles;
+  const curationRules = useCurationRules(session?.user?.email);
+  const analysisSessions = useAnalysisSessions(Boolean(session));
+  const { openSession, updateSession } = analysisSessions;
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [resumeAnalysis, setResumeAnalysis] = useState(false);
+  // Bumped whenever the photo set changes, so the analyzer starts fresh
+  const [photoSetVersion, setPhotoSetVersion] = useState(0);
+  const restoredRef = useRef(false);
   const [selectedPhotos, setSelectedPhotos] = useState<SelectedPhoto[]>([]);
   const [analysisResults, setAnalysisResults] = useState<AnalysisResult[]>([]);
   const [selectedPhotoIds, setSelectedPhotoIds] = useState<string[]>([]);
+  const [clusterPicks, setClusterPicks] = useState<Record<string, string>>({});
+  const [hideDuplicates, setHideDuplicates] = useState(true);
+  // 0 ranks by score alone; higher values favour variety over score
+  const [diversity, setDiversity] = useState(0);
+  const [sortKey, setSortKey] = useState<MetadataSortKey>("score");
+  const [metadataFilter, setMetadataFilter] = useState<MetadataFilter>(EMPTY_METADATA_FILTER);
   const [albumCreated, setAlbumCreated] = useState(false);
+  // Last auto-curation, explaining why each photo was selected or not
+  const [curation, setCuration] = useState<CurationOutcome | null>(null);
+  // Photos whose picking session has ended, waiting to be picked again
+  const [repickIds, setRepickIds] = useState<string[]>([]);
+  
+  // Re-rank with the active profile's weights, then for variety; no pixel
+  // analysis is re-run
+  const rankedResults = useMemo(
+    () => diversify(rankResults(analysisResults, activeProfile.weights), selectedPhotos, diversity),
+    [analysisResults, activeProfile.weights, selectedPhotos, diversity]
+  );
+  const clusters = useMemo(
+    () => buildClusters(rankedResults, selectedPhotos),
+    [rankedResults, selectedPhotos]
+  );
+  // What the grid shows: filtered by camera metadata, optionally re-sorted
+  const visibleResults = useMemo(
+    () => applyMetadataView(
+      rankedResults,
+      new Map(selectedPhotos.map(photo => [photo.id, photo])),
+      sortKey,
+      metadataFilter
+    ),
+    [rankedResults, selectedPhotos, sortKey, metadataFilter]
+  );
+  // Local imports live only in this tab: no sessions and no albums
+  const isLocalImport = selectedPhotos.some(photo => photo.source === "local");
+  const repickPhotos = useMemo(
+    () => selectedPhotos.filter(photo => repickIds.includes(photo.id)),
+    [selectedPhotos, repickIds]
+  );
+  
+  // Collect photos Google stopped serving; ids outside the current set are
+  // filtered out by repickPhotos
+  useEffect(() => onRepickNeeded(photoIds => {
+    setRepickIds(prev => {
+      const added = photoIds.filter(id => !prev.includes(id));
+      return added.length > 0 ? [...prev, ...added] : prev;
+    });
+  }), []);
+  
+  // Load a saved session; an unfinished analysis picks up where it stopped
+  const loadSession = async (id: string) => {
+    const saved = await openSession(id);
+    if (!saved) {
+      localStorage.removeItem(CURRENT_SESSION_KEY);
+      return;
+    }
+    
+    const finished = saved.results.length === saved.photos.length;
+    revokeLocalPhotos(selectedPhotos);
+    setSessionId(saved.id);
+    setPhotoSetVersion(prev => prev + 1);
+    setSelectedPhotos(saved.photos);
+    setRepickIds([]);
+    setAnalysisResults(finished ? saved.results : []);
+    setResumeAnalysis(!finished);
+    setSelectedPhotoIds(saved.selectedPhotoIds);
+    setClusterPicks(saved.clusterPicks);
+    setMetadataFilter(EMPTY_METADATA_FILTER);
+    setCuration(null);
+    setAlbumCreated(saved.album !== null);
+    
+    // A finished session skips the analyzer, so results saved before colour
+    // signatures existed get theirs here; re-rank once they have them,
+    // unless another photo set has replaced these results meanwhile
+    if (finished && await fillColorSignatures(saved.results, saved.photos, true) > 0) {
+      setAnalysisResults(prev => prev === saved.results ? [...saved.results] : prev);
+    }
+  };
+  
+  // Reopen the last session after a refresh or crash
+  useEffect(() => {
+    if (!session || restoredRef.current) return;
+    restoredRef.current = true;
+    
+    const lastSessionId = localStorage.getItem(CURRENT_SESSION_KEY);
+    if (lastSessionId) {
+      loadSession(lastSessionId);
+    }
+    // loadSession only uses stable setters and openSession
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [session]);
+  
+  useEffect(() => {
+    if (sessionId) {
+      localStorage.setItem(CURRENT_SESSION_KEY, sessionId);
+    }
+  }, [sessionId]);
+  
+  // Save curation changes to the session, debounced while clicking around
+  useEffect(() => {
+    if (!sessionId) return;
+    
+    const timeout = setTimeout(() => {
+      updateSession(sessionId, { selectedPhotoIds, clusterPicks });
+    }, 500);
+    return () => clearTimeout(timeout);
+  }, [sessionId, selectedPhotoIds, clusterPicks, updateSession]);
   
   // Handle photo selection
-  const handlePhotosSelected = (photos: SelectedPhoto[]) => {
+  const handlePhotosSelected = async (photos: SelectedPhoto[]) => {
+    revokeLocalPhotos(selectedPhotos);
+    setSessionId(null);
+    setResumeAnalysis(false);
+    setPhotoSetVersion(prev => prev + 1);
     setSelectedPhotos(photos);
+    setRepickIds([]);
     setAnalysisResults([]);
     setSelectedPhotoIds([]);
+    setClusterPicks({});
+    setMetadataFilter(EMPTY_METADATA_FILTER);
+    setCuration(null);
     setAlbumCreated(false);
+    
+    // Start a new session for this photo set; object URLs of local files
+    // would not survive a reload, so those are not saved
+    if (!session || photos.some(photo => photo.source === "local")) {
+      return;
+    }
+    const name = `${photos.length} photos, ${new Date().toLocaleString()}`;
+    setSessionId(await analysisSessions.createSession(name, photos));
+  };
+  
+  // Swap in the fresh URLs of photos picked again; the set, its results and
+  // the curation stay as they are
+  const handlePhotosRepicked = (photos: SelectedPhoto[]) => {
+    const repicked = new Map(photos.map(photo => [photo.id, photo]));
+    setSelectedPhotos(prev => prev.map(photo => {
+      const fresh = repicked.get(photo.id);
+      return fresh
+        ? { ...photo, baseUrl: fresh.baseUrl, baseUrlFetchedAt: fresh.baseUrlFetchedAt, pickerSessionId: fresh.pickerSessionId }
+        : photo;
+    }));
+    setRepickIds(prev => prev.filter(id => !repicked.has(id)));
   };
   
   // Handle analysis completion
   const handleAnalysisComplete = (results: AnalysisResult[]) => {
     setAnalysisResults(results);
-    // Auto-select top 10 photos or all if less than 10
-    const topPhotoIds = results
-      .slice(0, Math.min(10, results.length))
-      .map(result => result.photoId);
-    setSelectedPhotoIds(topPhotoIds);
+    setResumeAnalysis(false);
+    analysisSessions.refresh();
+    
+    // Auto-select by the curation rules under the active profile. A resumed
+    // session keeps the selection the user already made.
+    const ranked = diversify(rankResults(results, activeProfile.weights), selectedPhotos, diversity);
+    const resultClusters = buildClusters(ranked, selectedPhotos);
+    const outcome = curate(ranked, resultClusters, selectedPhotos, curationRules.rules);
+    setCuration(outcome);
+    if (selectedPhotoIds.length === 0) {
+      setSelectedPhotoIds(outcome.selectedIds);
+      setClusterPicks(picksForSelection(resultClusters, outcome.selectedIds));
+    }
+  };
+  
+  // Re-run auto-curation, replacing the current selection
+  const applyCuration = () => {
+    const outcome = curate(rankedResults, clusters, selectedPhotos, curationRules.rules);
+    setCuration(outcome);
+    setSelectedPhotoIds(outcome.selectedIds);
+    setClusterPicks(picksForSelection(clusters, outcome.selectedIds));
+  };
+  
+  // Handle the user choosing a different frame to represent a cluster
+  const handlePickChange = (clusterId: string, photoId: string) => {
+    const cluster = clusters.find(c => c.id === clusterId);
+    if (!cluster) return;
+    
+    const previousPick = clusterPicks[clusterId] ?? cluster.bestPhotoId;
+    setClusterPicks(prev => ({ ...prev, [clusterId]: photoId }));
+    
+    // Carry the selection over to the new pick
+    setSelectedPhotoIds(prev =>
+      prev.includes(previousPick)
+        ? [...prev.filter(id => id !== previousPick), photoId]
+        : prev
+    );
   };
   
   // Handle photo selection toggle
@@ -80,138 +333,199 @@ export default function Home() {
   };
   
   // Handle album creation
-  const handleAlbumCreated = (album: any) => {
+  const handleAlbumCreated = (album: Album) => {
     setAlbumCreated(true);
+    if (sessionId) {
+      updateSession(sessionId, { album }).then(() => analysisSessions.refresh());
+    }
+  };
+  
+  // Forget the current session if it is deleted
+  const handleSessionDeleted = async (id: string) => {
+    if (await analysisSessions.deleteSession(id) && id === sessionId) {
+      localStorage.removeItem(CURRENT_SESSION_KEY);
+      setSessionId(null);
+    }
   };
   
   return (
     <main className="container mx-auto py-8 px-4">
       <h1 className="text-3xl font-bold mb-8 text-center">Photo Analysis App</h1>
       
-      {!session ? (
-        <div className="flex flex-col items-center justify-center min-h-[300px]">
-          <Card className="w-full max-w-md">
-            <CardHeader>
-              <CardTitle>Sign in to get started</CardTitle>
-              <CardDescription>
-                Connect with your Google account to access your photos
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="flex justify-center">
-              <LoginButton />
-            </CardContent>
-          </Card>
-        </div>
-      ) : (
-        <div className="space-y-8">
-          {/* Step 1: Select Photos */}
-          <section>
-            <h2 className="text-2xl font-semibold mb-4">Step 1: Select Photos</h2>
-            <PhotoPicker onPhotosSelected={handlePhotosSelected} />
+      <div className="space-y-8">
+        {!session ? (
+          <div className="flex justify-center">
+            <Card className="w-full max-w-md">
+              <CardHeader>
+                <CardTitle>Sign in to get started</CardTitle>
+                <CardDescription>
+                  Connect with your Google account to access your photos, or import
+                  photos from this device below
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="flex justify-center">
+                <LoginButton />
+              </CardContent>
+            </Card>
+          </div>
+        ) : (
+          <>
+            {session.error === "RefreshAccessTokenError" && <ReauthPrompt />}
             
-            {selectedPhotos.length > 0 && (
-              <p className="mt-2 text-center">
-                {selectedPhotos.length} photos selected
-              </p>
-            )}
-          </section>
+            <SessionHistory
+              sessions={analysisSessions.sessions}
+              currentSessionId={sessionId}
+              onOpen={loadSession}
+              onRename={analysisSessions.renameSession}
+              onDelete={handleSessionDeleted}
+            />
+          </>
+        )}
+        
+        {/* Step 1: Select Photos */}
+        <section>
+          <h2 className="text-2xl font-semibold mb-4">Step 1: Select Photos</h2>
+          <div className="grid gap-4 md:grid-cols-2">
+            {session && <PhotoPicker onPhotosSelected={handlePhotosSelected} />}
+            <LocalImport onPhotosSelected={handlePhotosSelected} />
+          </div>
           
-          {/* Step 2: Analyze Photos */}
           {selectedPhotos.length > 0 && (
-            <section>
-              <h2 className="text-2xl font-semibold mb-4">Step 2: Analyze Photos</h2>
-              <PhotoAnalyzer 
-                photos={selectedPhotos} 
-                onAnalysisComplete={handleAnalysisComplete} 
-              />
-            </section>
+            <p className="mt-2 text-center">
+              {selectedPhotos.length} photos selected
+            </p>
           )}
           
-          {/* Step 3: Review Results */}
-          {analysisResults.length > 0 && (
-            <section>
-              <h2 className="text-2xl font-semibold mb-4">Step 3: Review Results</h2>
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {analysisResults.map(result => {
-                  const photo = selectedPhotos.find(p => p.id === result.photoId);
-                  if (!photo) return null;
-                  
-                  return (
-                    <Card 
-                      key={result.photoId}
-                      className={`cursor-pointer ${
-                        selectedPhotoIds.includes(result.photoId) 
-                          ? 'ring-2 ring-blue-500' 
-                          : ''
-                      }`}
-                      onClick={() => togglePhotoSelection(result.photoId)}
-                    >
-                      <div className="aspect-square relative overflow-hidden">
-                        <img 
-                          src={`${photo.baseUrl}=w400-h400`} 
-                          alt={photo.filename}
-                          className="object-cover w-full h-full"
-                        />
-                      </div>
-                      <CardContent className="p-4">
-                        <div className="flex justify-between items-center mb-2">
-                          <h3 className="font-medium truncate">{photo.filename}</h3>
-                          <span className="text-sm font-bold">
-                            {Math.round(result.overallScore * 100)}%
-                          </span>
-                        </div>
-                        
-                        <div className="space-y-1 text-sm">
-                          <div className="flex justify-between">
-                            <span>Technical:</span>
-                            <span>{Math.round(result.technicalQuality.overallScore * 100)}%</span>
-                          </div>
-                          <div className="flex justify-between">
-                            <span>Aesthetic:</span>
-                            <span>{Math.round((result.aesthetics.meanScore / 10) * 100)}%</span>
-                          </div>
-                          {result.faceExpressions.faceCount > 0 && (
-                            <div className="flex justify-between">
-                              <span>Faces ({result.faceExpressions.faceCount}):</span>
-                              <span>{Math.round(result.faceExpressions.bestExpressionScore * 100)}%</span>
-                            </div>
-                          )}
-                        </div>
-                      </CardContent>
-                    </Card>
-                  );
-                })}
+          {session && repickPhotos.length > 0 && (
+            <div className="mt-4">
+              <RepickPrompt photos={repickPhotos} onPhotosRepicked={handlePhotosRepicked} />
+            </div>
+          )}
+        </section>
+        
+        {/* Step 2: Analyze Photos */}
+        {selectedPhotos.length > 0 && (
+          <section>
+            <h2 className="text-2xl font-semibold mb-4">Step 2: Analyze Photos</h2>
+            <PhotoAnalyzer 
+              key={photoSetVersion}
+              photos={selectedPhotos} 
+              onAnalysisComplete={handleAnalysisComplete} 
+              autoStart={resumeAnalysis}
+              persistResults={Boolean(session) && !isLocalImport}
+            />
+          </section>
+        )}
+        
+        {/* Step 3: Review Results */}
+        {analysisResults.length > 0 && (
+          <section>
+            <h2 className="text-2xl font-semibold mb-4">Step 3: Review Results</h2>
+            <ScoringProfileEditor
+              profiles={scoringProfiles.profiles}
+              activeProfile={activeProfile}
+              onSelectProfile={scoringProfiles.selectProfile}
+              onUpdateWeights={scoringProfiles.updateWeights}
+              onCreateProfile={scoringProfiles.createProfile}
+              onDeleteProfile={scoringProfiles.deleteProfile}
+              onResetProfile={scoringProfiles.resetProfile}
+            />
+            
+            <CurationRulesEditor
+              rules={curationRules.rules}
+              warnings={curation?.warnings ?? []}
+              onUpdateRules={curationRules.updateRules}
+              onResetRules={curationRules.resetRules}
+              onApply={applyCuration}
+            />
+            
+            <div className="flex items-center gap-2 mb-4">
+              <Switch
+                id="hide-duplicates"
+                checked={hideDuplicates}
+                onCheckedChange={setHideDuplicates}
+              />
+              <Label htmlFor="hide-duplicates">
+                Show only the best frame of similar photos
+              </Label>
+            </div>
+            
+            <div className="mb-4 max-w-md space-y-1">
+              <div className="flex justify-between text-sm">
+                <Label htmlFor="diversity">Variety over score</Label>
+                <span>{Math.round(diversity * 100)}%</span>
               </div>
-              
-              <div className="mt-4 text-center">
-                <p>
-                  {selectedPhotoIds.length} of {analysisResults.length} photos selected
-                </p>
+              <Slider
+                id="diversity"
+                min={0}
+                max={1}
+                step={0.05}
+                value={[diversity]}
+                onValueChange={([value]) => setDiversity(value)}
+              />
+              <p className="text-xs text-gray-500">
+                {sortKey === "score"
+                  ? "Higher values move photos unlike those ranked above them up the list"
+                  : "Applies when sorting by score, and to auto-curation and album order"}
+              </p>
+            </div>
+            
+            <MetadataViewControls
+              photos={selectedPhotos}
+              sortKey={sortKey}
+              filter={metadataFilter}
+              onSortChange={setSortKey}
+              onFilterChange={setMetadataFilter}
+            />
+            
+            <ResultsGrid
+              results={visibleResults}
+              photos={selectedPhotos}
+              clusters={clusters}
+              clusterPicks={clusterPicks}
+              hideDuplicates={hideDuplicates}
+              selectedPhotoIds={selectedPhotoIds}
+              curationDecisions={curation?.decisions ?? []}
+              onToggleSelection={togglePhotoSelection}
+              onPickChange={handlePickChange}
+            />
+            
+            <div className="mt-4 text-center">
+              <p>
+                {selectedPhotoIds.length} of {analysisResults.length} photos selected
+              </p>
+              <p className="text-sm text-gray-500 mt-1">
+                Click on photos to select/deselect them
+              </p>
+              {isLocalImport && (
                 <p className="text-sm text-gray-500 mt-1">
-                  Click on photos to select/deselect them
+                  Albums can only be created from photos picked in Google Photos
                 </p>
-              </div>
-            </section>
-          )}
-          
-          {/* Step 4: Create Album */}
-          {selectedPhotoIds.length > 0 && (
-            <section>
-              <h2 className="text-2xl font-semibold mb-4">Step 4: Create Album</h2>
-              <AlbumCreator 
-                photoIds={selectedPhotoIds} 
-                onAlbumCreated={handleAlbumCreated} 
-              />
-              
-              {albumCreated && (
-                <div className="mt-4 p-4 bg-green-100 text-green-800 rounded-md text-center">
-                  Album created successfully! Check your Google Photos account.
-                </div>
               )}
-            </section>
-          )}
-        </div>
-      )}
+            </div>
+          </section>
+        )}
+        
+        {/* Step 4: Create Album */}
+        {session && !isLocalImport && selectedPhotoIds.length > 0 && (
+          <section>
+            <h2 className="text-2xl font-semibold mb-4">Step 4: Create Album</h2>
+            <AlbumCreator 
+              photoIds={selectedPhotoIds} 
+              photos={selectedPhotos}
+              results={rankedResults}
+              clusters={clusters}
+              onAlbumCreated={handleAlbumCreated} 
+            />
+            
+            {albumCreated && (
+              <div className="mt-4 p-4 bg-green-100 text-green-800 rounded-md text-center">
+                Album saved! Check your Google Photos account.
+              </div>
+            )}
+          </section>
+        )}
+      </div>
     </main>
   );
 }
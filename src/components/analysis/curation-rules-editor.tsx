@@ -0,0 +1,150 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import type { CurationRules } from "@/lib/analysis";
+
+// Starting values when an optional rule is switched on
+const RULE_DEFAULTS = {
+  maxPerHour: 3,
+  minFaceShare: 0.4,
+  minSharpness: 0.5
+};
+
+// Positive whole number from an input, or null when empty or invalid
+function parseCount(value: string): number | null {
+  const count = Number.parseInt(value, 10);
+  return Number.isFinite(count) && count > 0 ? count : null;
+}
+
+/**
+ * CurationRulesEditor component that edits the rules for automatic photo
+ * selection and applies them, replacing the current selection. Warnings
+ * list the rules the available photos could not satisfy.
+ */
+export function CurationRulesEditor({
+  rules,
+  warnings,
+  onUpdateRules,
+  onResetRules,
+  onApply
+}: {
+  rules: CurationRules,
+  warnings: string[],
+  onUpdateRules: (changes: Partial<CurationRules>) => void,
+  onResetRules: () => void,
+  onApply: () => void
+}) {
+  return (
+    <Card className="mb-4">
+      <CardHeader>
+        <CardTitle>Auto-Curation</CardTitle>
+        <CardDescription>
+          Describe the selection you want; each photo then notes why it was picked or left out
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2">
+          <Label htmlFor="target-count" className="w-40">Target photos</Label>
+          <Input
+            id="target-count"
+            type="number"
+            min={1}
+            className="w-24"
+            value={rules.targetCount}
+            onChange={(e) => onUpdateRules({ targetCount: parseCount(e.target.value) ?? 1 })}
+          />
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Switch
+            id="max-per-hour"
+            checked={rules.maxPerHour !== null}
+            onCheckedChange={(checked) => onUpdateRules({ maxPerHour: checked ? RULE_DEFAULTS.maxPerHour : null })}
+          />
+          <Label htmlFor="max-per-hour" className="w-36">At most per hour</Label>
+          {rules.maxPerHour !== null && (
+            <Input
+              type="number"
+              min={1}
+              aria-label="Photos per hour"
+              className="w-24"
+              value={rules.maxPerHour}
+              onChange={(e) => onUpdateRules({ maxPerHour: parseCount(e.target.value) ?? 1 })}
+            />
+          )}
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <Switch
+              id="min-face-share"
+              checked={rules.minFaceShare !== null}
+              onCheckedChange={(checked) => onUpdateRules({ minFaceShare: checked ? RULE_DEFAULTS.minFaceShare : null })}
+            />
+            <Label htmlFor="min-face-share" className="flex-1">At least this share with faces</Label>
+            {rules.minFaceShare !== null && (
+              <span className="text-sm">{Math.round(rules.minFaceShare * 100)}%</span>
+            )}
+          </div>
+          {rules.minFaceShare !== null && (
+            <Slider
+              min={0}
+              max={1}
+              step={0.05}
+              value={[rules.minFaceShare]}
+              onValueChange={([value]) => onUpdateRules({ minFaceShare: value })}
+            />
+          )}
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <Switch
+              id="min-sharpness"
+              checked={rules.minSharpness !== null}
+              onCheckedChange={(checked) => onUpdateRules({ minSharpness: checked ? RULE_DEFAULTS.minSharpness : null })}
+            />
+            <Label htmlFor="min-sharpness" className="flex-1">Minimum sharpness</Label>
+            {rules.minSharpness !== null && (
+              <span className="text-sm">{rules.minSharpness.toFixed(2)}</span>
+            )}
+          </div>
+          {rules.minSharpness !== null && (
+            <Slider
+              min={0}
+              max={1}
+              step={0.05}
+              value={[rules.minSharpness]}
+              onValueChange={([value]) => onUpdateRules({ minSharpness: value })}
+            />
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Switch
+            id="exclude-near-duplicates"
+            checked={rules.excludeNearDuplicates}
+            onCheckedChange={(checked) => onUpdateRules({ excludeNearDuplicates: checked })}
+          />
+          <Label htmlFor="exclude-near-duplicates">No near-duplicates</Label>
+        </div>
+
+        <div className="flex gap-2">
+          <Button onClick={onApply}>Apply rules</Button>
+          <Button variant="ghost" onClick={onResetRules}>Reset</Button>
+        </div>
+
+        {warnings.length > 0 && (
+          <ul className="text-sm text-amber-600 space-y-1">
+            {warnings.map(warning => <li key={warning}>{warning}</li>)}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
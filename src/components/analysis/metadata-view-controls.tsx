@@ -0,0 +1,123 @@
+"use client";
+
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  METADATA_SORT_OPTIONS,
+  metadataFacets,
+  type MetadataFilter,
+  type MetadataSortKey,
+} from "@/lib/photos/metadata";
+import type { SelectedPhoto } from "@/lib/photos/types";
+
+// Select items cannot have an empty value, so "any" stands for no filter
+const ANY = "any";
+
+const ISO_LIMITS = [200, 400, 800, 1600, 3200, 6400];
+
+/**
+ * MetadataViewControls component that sorts and filters the results by the
+ * photos' camera metadata. Menus only list cameras and lenses that occur.
+ */
+export function MetadataViewControls({
+  photos,
+  sortKey,
+  filter,
+  onSortChange,
+  onFilterChange
+}: {
+  photos: SelectedPhoto[],
+  sortKey: MetadataSortKey,
+  filter: MetadataFilter,
+  onSortChange: (sortKey: MetadataSortKey) => void,
+  onFilterChange: (filter: MetadataFilter) => void
+}) {
+  const { cameras, lenses } = metadataFacets(photos);
+  const hasIso = photos.some(photo => photo.metadata?.iso !== undefined);
+
+  return (
+    <div className="flex flex-wrap items-end gap-4 mb-4">
+      <div className="space-y-1">
+        <Label>Sort by</Label>
+        <Select value={sortKey} onValueChange={(value) => onSortChange(value as MetadataSortKey)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {METADATA_SORT_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {cameras.length > 1 && (
+        <div className="space-y-1">
+          <Label>Camera</Label>
+          <Select
+            value={filter.camera ?? ANY}
+            onValueChange={(value) => onFilterChange({ ...filter, camera: value === ANY ? null : value })}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>All cameras</SelectItem>
+              {cameras.map(camera => (
+                <SelectItem key={camera} value={camera}>{camera}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {lenses.length > 1 && (
+        <div className="space-y-1">
+          <Label>Lens</Label>
+          <Select
+            value={filter.lens ?? ANY}
+            onValueChange={(value) => onFilterChange({ ...filter, lens: value === ANY ? null : value })}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>All lenses</SelectItem>
+              {lenses.map(lens => (
+                <SelectItem key={lens} value={lens}>{lens}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {hasIso && (
+        <div className="space-y-1">
+          <Label>ISO</Label>
+          <Select
+            value={filter.maxIso === null ? ANY : String(filter.maxIso)}
+            onValueChange={(value) => onFilterChange({ ...filter, maxIso: value === ANY ? null : Number(value) })}
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any ISO</SelectItem>
+              {ISO_LIMITS.map(limit => (
+                <SelectItem key={limit} value={String(limit)}>Up to {limit}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  computeDiagnostics,
+  type AnalysisDiagnostics,
+  type AnalysisResult,
+  type ExpressionProbabilities,
+} from "@/lib/analysis";
+import { ANALYSIS_SIZE, loadImage, readPixels } from "@/lib/analysis/pipeline";
+import { invalidatePhotoUrl, resolvePhotoUrl } from "@/lib/photos/media-urls";
+import type { SelectedPhoto } from "@/lib/photos/types";
+
+type Overlay = "sharpness" | "clipping" | "thirds" | "faces";
+
+const OVERLAYS: { value: Overlay; label: string }[] = [
+  { value: "sharpness", label: "Sharpness" },
+  { value: "clipping", label: "Clipping" },
+  { value: "thirds", label: "Thirds" },
+  { value: "faces", label: "Faces" },
+];
+
+// Width of each zebra stripe in the clipping overlay, in pixels
+const ZEBRA_STRIPE = 4;
+
+// Most likely expression and its probability
+function topExpression(expression: ExpressionProbabilities): [string, number] {
+  return Object.entries(expression).reduce<[string, number]>(
+    (best, entry) => (entry[1] > best[1] ? entry : best),
+    ["neutral", 0]
+  );
+}
+
+// Red (soft) to green (sharp) heatmap over the sharpness grid
+function drawSharpness(ctx: CanvasRenderingContext2D, diagnostics: AnalysisDiagnostics) {
+  const { sharpnessMap, width, height } = diagnostics;
+  const cellWidth = width / sharpnessMap.columns;
+  const cellHeight = height / sharpnessMap.rows;
+
+  for (let row = 0; row < sharpnessMap.rows; row++) {
+    for (let column = 0; column < sharpnessMap.columns; column++) {
+      const value = sharpnessMap.values[row * sharpnessMap.columns + column];
+      ctx.fillStyle = `hsla(${Math.round(value * 120)}, 100%, 50%, 0.4)`;
+      ctx.fillRect(column * cellWidth, row * cellHeight, Math.ceil(cellWidth), Math.ceil(cellHeight));
+    }
+  }
+}
+
+// Diagonal zebra stripes: red over blown highlights, blue over crushed shadows
+function drawClipping(ctx: CanvasRenderingContext2D, diagnostics: AnalysisDiagnostics) {
+  const { clippingMask, width, height } = diagnostics;
+  const overlay = ctx.createImageData(width, height);
+
+  for (let i = 0; i < clippingMask.length; i++) {
+    const x = i % width;
+    const y = Math.floor(i / width);
+    if (clippingMask[i] === 0 || Math.floor((x + y) / ZEBRA_STRIPE) % 2 === 1) continue;
+
+    const idx = i * 4;
+    const highlight = clippingMask[i] === 2;
+    overlay.data[idx] = highlight ? 255 : 0;
+    overlay.data[idx + 1] = 0;
+    overlay.data[idx + 2] = highlight ? 0 : 255;
+    overlay.data[idx + 3] = 200;
+  }
+
+  // putImageData ignores compositing, so stamp through a scratch canvas
+  const scratch = document.createElement("canvas");
+  scratch.width = width;
+  scratch.height = height;
+  scratch.getContext("2d")?.putImageData(overlay, 0, 0);
+  ctx.drawImage(scratch, 0, 0);
+}
+
+// Rule-of-thirds grid plus the edge-dense points the composition score sees
+function drawThirds(ctx: CanvasRenderingContext2D, diagnostics: AnalysisDiagnostics) {
+  const { width, height, interestPoints } = diagnostics;
+  const lineWidth = Math.max(1, width / 400);
+
+  ctx.strokeStyle = "rgba(255, 255, 255, 0.8)";
+  ctx.lineWidth = lineWidth;
+  ctx.beginPath();
+  for (const fraction of [1 / 3, 2 / 3]) {
+    ctx.moveTo(width * fraction, 0);
+    ctx.lineTo(width * fraction, height);
+    ctx.moveTo(0, height * fraction);
+    ctx.lineTo(width, height * fraction);
+  }
+  ctx.stroke();
+
+  ctx.strokeStyle = "rgba(250, 204, 21, 0.9)";
+  ctx.lineWidth = lineWidth * 2;
+  for (const point of interestPoints) {
+    ctx.beginPath();
+    ctx.arc(point.x * width, point.y * height, (Math.min(width, height) / 30) * (0.5 + point.strength), 0, Math.PI * 2);
+    ctx.stroke();
+  }
+}
+
+// Face boxes labelled with the dominant expression and closed eyes
+function drawFaces(ctx: CanvasRenderingContext2D, result: AnalysisResult, width: number, height: number) {
+  const fontSize = Math.max(12, Math.round(width / 50));
+  ctx.font = `${fontSize}px sans-serif`;
+  ctx.lineWidth = Math.max(2, width / 300);
+
+  result.faceExpressions.faces.forEach((face, index) => {
+    const x = face.box.x * width;
+    const y = face.box.y * height;
+    const color = face.eyes.closed ? "rgb(220, 38, 38)" : "rgb(59, 130, 246)";
+
+    ctx.strokeStyle = color;
+    ctx.strokeRect(x, y, face.box.width * width, face.box.height * height);
+
+    const [expression, probability] = topExpression(result.faceExpressions.expressions[index]);
+    const label = `${expression} ${Math.round(probability * 100)}%${face.eyes.closed ? " · eyes closed" : ""}`;
+    const labelY = Math.max(fontSize + 4, y);
+    ctx.fillStyle = color;
+    ctx.fillRect(x, labelY - fontSize - 4, ctx.measureText(label).width + 8, fontSize + 4);
+    ctx.fillStyle = "white";
+    ctx.fillText(label, x + 4, labelY - 4);
+  });
+}
+
+/**
+ * PhotoDiagnostics dialog that shows a photo at analysis resolution with
+ * toggleable overlays built from the analyzer's intermediate buffers.
+ */
+export function PhotoDiagnostics({
+  photo,
+  result,
+  onClose
+}: {
+  photo: SelectedPhoto,
+  result: AnalysisResult,
+  onClose: () => void
+}) {
+  const imageCanvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
+  const [diagnostics, setDiagnostics] = useState<AnalysisDiagnostics | null>(null);
+  const [overlays, setOverlays] = useState<Overlay[]>(["sharpness"]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the frame the analyzer saw and rebuild its buffers
+  useEffect(() => {
+    let cancelled = false;
+    setDiagnostics(null);
+    setError(null);
+
+    // Retry once with a fresh URL in case Google expired the one we had
+    resolvePhotoUrl(photo, ANALYSIS_SIZE)
+      .then(loadImage)
+      .catch(() => {
+        invalidatePhotoUrl(photo);
+        return resolvePhotoUrl(photo, ANALYSIS_SIZE).then(loadImage);
+      })
+      .then(image => {
+        const canvas = imageCanvasRef.current;
+        if (cancelled || !canvas) return;
+        setDiagnostics(computeDiagnostics(readPixels(canvas, image)));
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [photo]);
+
+  // Redraw the overlays whenever the selection changes
+  useEffect(() => {
+    const canvas = overlayCanvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || !diagnostics) return;
+
+    canvas.width = diagnostics.width;
+    canvas.height = diagnostics.height;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    if (overlays.includes("sharpness")) drawSharpness(ctx, diagnostics);
+    if (overlays.includes("clipping")) drawClipping(ctx, diagnostics);
+    if (overlays.includes("thirds")) drawThirds(ctx, diagnostics);
+    if (overlays.includes("faces")) drawFaces(ctx, result, diagnostics.width, diagnostics.height);
+  }, [diagnostics, overlays, result]);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="truncate">{photo.filename}</DialogTitle>
+          <DialogDescription>
+            Sharpness runs from red (soft) to green (sharp); zebra stripes mark clipped
+            highlights (red) and shadows (blue).
+          </DialogDescription>
+        </DialogHeader>
+
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          className="justify-start"
+          value={overlays}
+          onValueChange={(value) => setOverlays(value as Overlay[])}
+        >
+          {OVERLAYS.map(overlay => (
+            <ToggleGroupItem key={overlay.value} value={overlay.value}>
+              {overlay.label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+
+        <div className="relative">
+          <canvas ref={imageCanvasRef} className="block w-full h-auto" />
+          <canvas ref={overlayCanvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+          {!diagnostics && !error && (
+            <p className="text-sm text-gray-500">Loading diagnostics...</p>
+          )}
+          {error && (
+            <p className="text-sm text-red-600">Could not load diagnostics: {error}</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,282 @@
+"use client";
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
+import type { AnalysisResult, CurationDecision, DuplicateCluster, Finding } from "@/lib/analysis";
+import { PhotoImage } from "@/components/photos/photo-image";
+import { PhotoDiagnostics } from "./photo-diagnostics";
+import { describeCamera, describeCaptureSettings } from "@/lib/photos/metadata";
+import type { SelectedPhoto } from "@/lib/photos/types";
+
+const IMPACT_STYLES: Record<Finding["impact"], { marker: string; className: string }> = {
+  negative: { marker: "−", className: "text-red-600" },
+  positive: { marker: "+", className: "text-green-600" },
+  neutral: { marker: "•", className: "text-gray-500" }
+};
+
+interface ResultsGridProps {
+  results: AnalysisResult[];
+  photos: SelectedPhoto[];
+  clusters: DuplicateCluster[];
+  // User overrides of the frame shown for a cluster, keyed by cluster id
+  clusterPicks: Record<string, string>;
+  hideDuplicates: boolean;
+  selectedPhotoIds: string[];
+  // Why auto-curation selected or skipped each photo, when it has run
+  curationDecisions: CurationDecision[];
+  onToggleSelection: (photoId: string) => void;
+  onPickChange: (clusterId: string, photoId: string) => void;
+}
+
+/**
+ * ResultsGrid component that shows analyzed photos in the order given
+ * (ranked by score unless sorted by metadata). With hideDuplicates on, each
+ * near-duplicate cluster collapses to its picked frame and can be expanded
+ * to choose a different one.
+ */
+export function ResultsGrid({
+  results,
+  photos,
+  clusters,
+  clusterPicks,
+  hideDuplicates,
+  selectedPhotoIds,
+  curationDecisions,
+  onToggleSelection,
+  onPickChange
+}: ResultsGridProps) {
+  const [expandedClusterId, setExpandedClusterId] = useState<string | null>(null);
+  const [detailPhotoId, setDetailPhotoId] = useState<string | null>(null);
+
+  const photoById = new Map(photos.map(photo => [photo.id, photo]));
+  const resultById = new Map(results.map(result => [result.photoId, result]));
+  const decisionById = new Map(curationDecisions.map(decision => [decision.photoId, decision]));
+  const clusterByPhotoId = new Map(
+    clusters.flatMap(cluster => cluster.photoIds.map(photoId => [photoId, cluster] as const))
+  );
+
+  const renderCard = (photoId: string, cluster?: DuplicateCluster) => {
+    const result = resultById.get(photoId);
+    const photo = photoById.get(photoId);
+    if (!result || !photo) return null;
+
+    const similarCount = cluster ? cluster.photoIds.length - 1 : 0;
+    const camera = describeCamera(photo.metadata);
+    const settings = describeCaptureSettings(photo.metadata);
+    const decision = decisionById.get(photoId);
+
+    return (
+      <Card
+        key={photoId}
+        className={`cursor-pointer ${
+          selectedPhotoIds.includes(photoId)
+            ? 'ring-2 ring-blue-500'
+            : ''
+        }`}
+        onClick={() => onToggleSelection(photoId)}
+      >
+        <div className="aspect-square relative overflow-hidden">
+          <PhotoImage photo={photo} size={400} className="object-cover w-full h-full" />
+          {similarCount > 0 && (
+            <Badge variant="secondary" className="absolute top-2 right-2">
+              {hideDuplicates ? `+${similarCount} similar` : `1 of ${similarCount + 1} similar`}
+            </Badge>
+          )}
+        </div>
+        <CardContent className="p-4">
+          <div className="flex justify-between items-center mb-2">
+            <h3 className="font-medium truncate">{photo.filename}</h3>
+            <span className="text-sm font-bold">
+              {Math.round(result.overallScore * 100)}%
+            </span>
+          </div>
+          {(camera || settings) && (
+            <p className="text-xs text-gray-500 mb-2 truncate">
+              {[camera, settings].filter(Boolean).join(" · ")}
+            </p>
+          )}
+
+          {decision && (
+            <p className={`text-xs mb-2 ${decision.included ? "text-green-600" : "text-gray-500"}`}>
+              {decision.included ? "Curated: " : "Skipped: "}
+              {decision.reason}
+            </p>
+          )}
+
+          <div className="space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span>Technical:</span>
+              <span>{Math.round(result.technicalQuality.overallScore * 100)}%</span>
+            </div>
+            <div className="flex justify-between">
+              <span>
+                {result.technicalQuality.subjectRegions.some(region => region.source === "face")
+                  ? "Face sharpness:"
+                  : "Subject sharpness:"}
+              </span>
+              <span>{Math.round(result.technicalQuality.subjectBlurScore * 100)}%</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Aesthetic:</span>
+              <span>{Math.round((result.aesthetics.meanScore / 10) * 100)}%</span>
+            </div>
+            {result.faceExpressions.faceCount > 0 && (
+              <div className="flex justify-between">
+                <span>Faces ({result.faceExpressions.faceCount}):</span>
+                <span>{Math.round(result.faceExpressions.groupScore * 100)}%</span>
+              </div>
+            )}
+            {result.faceExpressions.faceCount > 1 && (
+              <ul className="text-xs text-gray-500 space-y-0.5">
+                {result.faceExpressions.faces.map((face, index) => (
+                  <li key={index} className="flex justify-between">
+                    <span>
+                      Face {index + 1}
+                      {face.eyes.closed && " · eyes closed"}
+                      {!face.facingCamera && " · looking away"}
+                    </span>
+                    <span>{Math.round(face.quality * 100)}%</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {result.faceExpressions.closedEyesCount > 0 && (
+              <div className="flex justify-between text-red-600">
+                <span>Eyes closed:</span>
+                <span>
+                  {result.faceExpressions.closedEyesCount} of {result.faceExpressions.faceCount}
+                </span>
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between mt-2">
+            {result.findings.length > 0 && (
+              <HoverCard openDelay={200}>
+                <HoverCardTrigger asChild>
+                  <button
+                    type="button"
+                    className="text-xs text-blue-600 underline-offset-2 hover:underline"
+                    onClick={(event) => event.stopPropagation()}
+                  >
+                    Why this score?
+                  </button>
+                </HoverCardTrigger>
+                <HoverCardContent className="w-72" onClick={(event) => event.stopPropagation()}>
+                  <ul className="space-y-1 text-sm">
+                    {result.findings.map((finding, index) => (
+                      <li key={index} className={`flex gap-2 ${IMPACT_STYLES[finding.impact].className}`}>
+                        <span aria-hidden>{IMPACT_STYLES[finding.impact].marker}</span>
+                        <span>{finding.message}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </HoverCardContent>
+              </HoverCard>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              className="ml-auto"
+              onClick={(event) => {
+                event.stopPropagation();
+                setDetailPhotoId(photoId);
+              }}
+            >
+              Diagnostics
+            </Button>
+          </div>
+
+          {hideDuplicates && cluster && similarCount > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full mt-3"
+              onClick={(event) => {
+                event.stopPropagation();
+                setExpandedClusterId(expandedClusterId === cluster.id ? null : cluster.id);
+              }}
+            >
+              {expandedClusterId === cluster.id ? "Hide similar frames" : "Show similar frames"}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  // Alternative frames for an expanded cluster
+  const renderAlternatives = (cluster: DuplicateCluster, pickedId: string) => (
+    <div key={`${cluster.id}-alternatives`} className="col-span-full rounded-md border p-4">
+      <p className="text-sm text-gray-500 mb-2">
+        Similar frames — choose which one represents this group
+      </p>
+      <div className="flex gap-3 overflow-x-auto">
+        {cluster.photoIds.map(photoId => {
+          const photo = photoById.get(photoId);
+          const result = resultById.get(photoId);
+          if (!photo || !result) return null;
+
+          return (
+            <div key={photoId} className="w-32 shrink-0 space-y-1">
+              <PhotoImage
+                photo={photo}
+                size={200}
+                className={`aspect-square object-cover w-full rounded ${
+                  photoId === pickedId ? 'ring-2 ring-blue-500' : ''
+                }`}
+              />
+              <div className="flex justify-between text-xs">
+                <span>{Math.round(result.overallScore * 100)}%</span>
+                {photoId === cluster.bestPhotoId && <span>Best</span>}
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                disabled={photoId === pickedId}
+                onClick={() => onPickChange(cluster.id, photoId)}
+              >
+                {photoId === pickedId ? "Picked" : "Use this frame"}
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+
+  const detailPhoto = detailPhotoId ? photoById.get(detailPhotoId) : undefined;
+  const detailResult = detailPhotoId ? resultById.get(detailPhotoId) : undefined;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+      {hideDuplicates
+        ? results.flatMap(result => {
+            // A cluster appears where its picked frame falls in the order
+            const cluster = clusterByPhotoId.get(result.photoId);
+            if (!cluster) return [renderCard(result.photoId)];
+
+            const pickedId = clusterPicks[cluster.id] ?? cluster.bestPhotoId;
+            if (pickedId !== result.photoId) return [];
+
+            const card = renderCard(pickedId, cluster);
+            return expandedClusterId === cluster.id
+              ? [card, renderAlternatives(cluster, pickedId)]
+              : [card];
+          })
+        : results.map(result => renderCard(result.photoId, clusterByPhotoId.get(result.photoId)))}
+
+      {detailPhoto && detailResult && (
+        <PhotoDiagnostics
+          photo={detailPhoto}
+          result={detailResult}
+          onClose={() => setDetailPhotoId(null)}
+        />
+      )}
+    </div>
+  );
+}
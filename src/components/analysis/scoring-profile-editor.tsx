@@ -0,0 +1,192 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import type { ScoringProfile, ScoringWeights } from "@/lib/analysis";
+
+type NumericWeight = Exclude<keyof ScoringWeights, "noFaceScore">;
+
+// Editable weights, grouped the way they combine
+const WEIGHT_GROUPS: { title: string; fields: { key: NumericWeight; label: string }[] }[] = [
+  {
+    title: "Overall",
+    fields: [
+      { key: "technical", label: "Technical quality" },
+      { key: "aesthetic", label: "Aesthetics" },
+      { key: "faces", label: "Faces" },
+    ]
+  },
+  {
+    title: "Technical quality",
+    fields: [
+      { key: "blur", label: "Sharpness" },
+      { key: "noise", label: "Low noise" },
+      { key: "exposure", label: "Exposure" },
+      { key: "subjectSharpness", label: "Subject vs. whole-frame sharpness" },
+    ]
+  },
+  {
+    title: "Faces",
+    fields: [
+      { key: "expression", label: "Expression" },
+      { key: "eyesOpen", label: "Eyes open" },
+      { key: "facingCamera", label: "Facing camera" },
+      { key: "closedEyesPenalty", label: "Closed-eyes penalty" },
+    ]
+  }
+];
+
+/**
+ * ScoringProfileEditor component that picks the active scoring profile and
+ * edits its weights. Changes apply to the ranking immediately.
+ */
+export function ScoringProfileEditor({
+  profiles,
+  activeProfile,
+  onSelectProfile,
+  onUpdateWeights,
+  onCreateProfile,
+  onDeleteProfile,
+  onResetProfile
+}: {
+  profiles: ScoringProfile[],
+  activeProfile: ScoringProfile,
+  onSelectProfile: (id: string) => void,
+  onUpdateWeights: (id: string, weights: Partial<ScoringWeights>) => void,
+  onCreateProfile: (name: string) => void,
+  onDeleteProfile: (id: string) => void,
+  onResetProfile: (id: string) => void
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [newProfileName, setNewProfileName] = useState("");
+  const { weights } = activeProfile;
+
+  const setWeight = (key: keyof ScoringWeights, value: number | null) =>
+    onUpdateWeights(activeProfile.id, { [key]: value });
+
+  const createProfile = () => {
+    const name = newProfileName.trim();
+    if (!name) return;
+    onCreateProfile(name);
+    setNewProfileName("");
+  };
+
+  return (
+    <Card className="mb-4">
+      <CardHeader>
+        <CardTitle>Scoring Profile</CardTitle>
+        <CardDescription>
+          Choose what matters for this set of photos; the ranking updates instantly
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={activeProfile.id} onValueChange={onSelectProfile}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles.map(profile => (
+                <SelectItem key={profile.id} value={profile.id}>
+                  {profile.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => setIsEditing(!isEditing)}>
+            {isEditing ? "Done" : "Edit weights"}
+          </Button>
+          {activeProfile.builtIn ? (
+            <Button variant="ghost" onClick={() => onResetProfile(activeProfile.id)}>
+              Reset
+            </Button>
+          ) : (
+            <Button variant="ghost" onClick={() => onDeleteProfile(activeProfile.id)}>
+              Delete
+            </Button>
+          )}
+        </div>
+
+        {isEditing && (
+          <div className="space-y-6">
+            {WEIGHT_GROUPS.map(group => (
+              <div key={group.title} className="space-y-3">
+                <h4 className="text-sm font-semibold">{group.title}</h4>
+                {group.fields.map(field => (
+                  <div key={field.key} className="space-y-1">
+                    <div className="flex justify-between text-sm">
+                      <Label>{field.label}</Label>
+                      <span>{weights[field.key].toFixed(2)}</span>
+                    </div>
+                    <Slider
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      value={[weights[field.key]]}
+                      onValueChange={([value]) => setWeight(field.key, value)}
+                    />
+                  </div>
+                ))}
+              </div>
+            ))}
+
+            <div className="space-y-3">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="no-face-score"
+                  checked={weights.noFaceScore !== null}
+                  onCheckedChange={(checked) => setWeight("noFaceScore", checked ? 0 : null)}
+                />
+                <Label htmlFor="no-face-score">
+                  Give photos without faces a fixed face score
+                </Label>
+              </div>
+              {weights.noFaceScore !== null ? (
+                <div className="space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <Label>Face score for photos without faces</Label>
+                    <span>{weights.noFaceScore.toFixed(2)}</span>
+                  </div>
+                  <Slider
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={[weights.noFaceScore]}
+                    onValueChange={([value]) => setWeight("noFaceScore", value)}
+                  />
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">
+                  Photos without faces are ranked on technical quality and aesthetics alone.
+                </p>
+              )}
+            </div>
+
+            <div className="flex gap-2">
+              <Input
+                placeholder="New profile name"
+                value={newProfileName}
+                onChange={(e) => setNewProfileName(e.target.value)}
+              />
+              <Button onClick={createProfile} disabled={!newProfileName.trim()}>
+                Save as new
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
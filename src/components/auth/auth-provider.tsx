@@ -1,6 +1,9 @@
 import { SessionProvider } from "next-auth/react";
 import { ReactNode } from "react";
 
+// Access tokens last an hour; re-check the session well before that
+const SESSION_REFETCH_SECONDS = 5 * 60;
+
 // Define types for the AuthProvider props
 interface AuthProviderProps {
   children: ReactNode;
@@ -11,5 +14,6 @@ interface AuthProviderProps {
  * to provide authentication context throughout the app
  */
 export function AuthProvider({ children }: AuthProviderProps) {
-  return <SessionProvider>{children}</SessionProvider>;
+  // Poll the session so the access token is refreshed while the tab stays open
+  return <SessionProvider refetchInterval={SESSION_REFETCH_SECONDS}>{children}</SessionProvider>;
 }
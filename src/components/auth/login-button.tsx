@@ -22,7 +22,7 @@ export function LoginButton() {
   }
 
   return (
-    <Button onClick={() => signIn("google")}>
+    <Button onClick={() => signIn()}>
       Sign in with Google
     </Button>
   );
@@ -0,0 +1,23 @@
+"use client";
+
+import { signIn } from "next-auth/react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+
+/**
+ * ReauthPrompt component shown when Google access has expired and could not
+ * be renewed, asking the user to sign in again
+ */
+export function ReauthPrompt() {
+  return (
+    <Alert variant="destructive">
+      <AlertTitle>Your Google session has expired</AlertTitle>
+      <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+        <span>Sign in again to keep accessing your photos. Your analysis is kept.</span>
+        <Button variant="outline" size="sm" onClick={() => signIn("google")}>
+          Sign in again
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -1,119 +1,455 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useSession } from "next-auth/react";
+import { ReauthPrompt } from "@/components/auth/reauth-prompt";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { useAlbumTitle } from "@/hooks/use-album-title";
+import type { AnalysisResult, DuplicateCluster } from "@/lib/analysis";
+import {
+  ALBUM_ORDER_OPTIONS,
+  MAX_SCORE_CAPTIONS,
+  planAlbumLayout,
+  type AlbumOrder,
+} from "@/lib/photos/album-layout";
+import { TITLE_TOKENS } from "@/lib/photos/album-title";
+import {
+  addToAlbumWithLayout,
+  removeFromAlbumInBatches,
+  type AlbumAddOutcome,
+} from "@/lib/photos/album-upload";
+import { createAlbum as createPhotosAlbum, getAlbumMediaItemIds, listAlbums } from "@/lib/photos/client";
+import { PhotosApiError } from "@/lib/photos/errors";
+import type { Album, SelectedPhoto } from "@/lib/photos/types";
 
-// Define types for album creation
-interface Album {
-  id: string;
-  title: string;
-  productUrl: string;
-}
+// Select value for creating a new album rather than adding to one
+const NEW_ALBUM = "new";
 
 /**
- * AlbumCreator component that integrates with Google Photos Library API
- * to create albums and add selected photos to them
+ * AlbumCreator component that creates a Google Photos album, or adds to one
+ * the app created earlier, with the selected photos in batches through the
+ * server-side Photos proxy. Photos already in an existing album are skipped,
+ * and photos of this set that were deselected can be taken out. If some
+ * photos cannot be added, the user decides whether to keep the partial album
+ * or roll it back. Photos can be ordered by score, capture time or scene,
+ * with day, scene or similar-shot headers, score captions and the best photo
+ * as cover. New albums get a suggested title and description, both editable.
  */
-export function AlbumCreator({ 
-  photoIds, 
-  onAlbumCreated 
-}: { 
-  photoIds: string[], 
-  onAlbumCreated: (album: Album) => void 
+export function AlbumCreator({
+  photoIds,
+  photos,
+  results,
+  clusters,
+  onAlbumCreated
+}: {
+  photoIds: string[],
+  // Used to name photos that could not be added
+  photos: SelectedPhoto[],
+  // Analysis results ranked best first, for ordering, captions and the cover
+  results: AnalysisResult[],
+  // Near-duplicate clusters, named as sections in scene order
+  clusters: DuplicateCluster[],
+  onAlbumCreated: (album: Album) => void
 }) {
   const { data: session } = useSession();
-  const [albumTitle, setAlbumTitle] = useState("Photo Analysis Results");
+  // Typed-in title and description; null follows the suggestion
+  const [customTitle, setCustomTitle] = useState<string | null>(null);
+  const [customDescription, setCustomDescription] = useState<string | null>(null);
+  const [showTemplate, setShowTemplate] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
-  
+  const [authExpired, setAuthExpired] = useState(false);
+  const [progress, setProgress] = useState<{ processed: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // An album some photos could not be added to, awaiting keep or roll back
+  const [partial, setPartial] = useState<{ album: Album; outcome: AlbumAddOutcome; created: boolean } | null>(null);
+  const [isRollingBack, setIsRollingBack] = useState(false);
+  // Album whose added photos were removed again; only a new one is left empty
+  const [rolledBackAlbum, setRolledBackAlbum] = useState<{ album: Album; created: boolean } | null>(null);
+  const [albums, setAlbums] = useState<Album[]>([]);
+  const [targetId, setTargetId] = useState(NEW_ALBUM);
+  const [removeDeselected, setRemoveDeselected] = useState(false);
+  const [summary, setSummary] = useState<string | null>(null);
+  const [order, setOrder] = useState<AlbumOrder>("score");
+  const [sectionHeaders, setSectionHeaders] = useState(true);
+  const [scoreCaptions, setScoreCaptions] = useState(false);
+  const [setCover, setSetCover] = useState(true);
+
+  const filenameById = new Map(photos.map(photo => [photo.id, photo.filename]));
+  const targetAlbum = albums.find(album => album.id === targetId) ?? null;
+  const selectedIds = new Set(photoIds);
+  const suggestion = useAlbumTitle(
+    session?.user?.email,
+    photos.filter(photo => selectedIds.has(photo.id)),
+    results.filter(result => selectedIds.has(result.photoId)),
+    photos.length
+  );
+  const albumTitle = customTitle ?? suggestion.title;
+  const albumDescription = customDescription ?? suggestion.description;
+
+  // Albums the app created before, as targets to add to
+  const loadAlbums = async () => {
+    try {
+      setAlbums(await listAlbums());
+    } catch (err) {
+      if (err instanceof PhotosApiError && err.status === 401) {
+        setAuthExpired(true);
+      } else {
+        console.error("Error listing albums:", err);
+      }
+    }
+  };
+
+  useEffect(() => {
+    if (session && !session.error) {
+      loadAlbums();
+    }
+    // Only reload when the signed-in user changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [session?.user?.email]);
+
   // Function to create a new album and add selected photos
   const createAlbum = async () => {
-    if (!session?.accessToken || photoIds.length === 0) {
-      console.error("No access token available or no photos selected");
+    if (!session || photoIds.length === 0) {
+      console.error("Not signed in or no photos selected");
       return;
     }
-    
+
     setIsCreating(true);
-    
+    setAuthExpired(false);
+    setError(null);
+    setPartial(null);
+    setRolledBackAlbum(null);
+    setSummary(null);
+
     try {
-      // Create a new album
-      const createResponse = await fetch('https://photoslibrary.googleapis.com/v1/albums', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${session.accessToken}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          album: { title: albumTitle }
-        })
-      });
-      
-      if (!createResponse.ok) {
-        throw new Error(`Failed to create album: ${createResponse.statusText}`);
+      // Create a new album, or find what the chosen one already holds
+      const created = targetAlbum === null;
+      const album = targetAlbum ?? await createPhotosAlbum(albumTitle);
+      const present = new Set(created ? [] : await getAlbumMediaItemIds(album.id));
+      const toAdd = photoIds.filter(id => !present.has(id));
+      const toRemove = removeDeselected
+        ? photos.map(photo => photo.id).filter(id => present.has(id) && !photoIds.includes(id))
+        : [];
+
+      // Plan over the whole selection so ranks stay global, then leave out
+      // the photos the album already holds
+      const layout = planAlbumLayout(photoIds, photos, results, clusters, { order, sectionHeaders, scoreCaptions });
+      layout.sections = layout.sections
+        .map(section => ({ ...section, photoIds: section.photoIds.filter(id => !present.has(id)) }))
+        .filter(section => section.photoIds.length > 0);
+
+      // Add photos to the album section by section, 50 at a time
+      setProgress({ processed: 0, total: toAdd.length });
+      const outcome = await addToAlbumWithLayout(
+        album.id,
+        layout,
+        { setCover, description: created ? albumDescription : undefined },
+        (processed, total) => setProgress({ processed, total })
+      );
+      setAuthExpired(outcome.authExpired);
+
+      if (toRemove.length > 0 && !outcome.authExpired) {
+        await removeFromAlbumInBatches(album.id, toRemove);
       }
-      
-      const albumData = await createResponse.json();
-      
-      // Add photos to the album
-      const addResponse = await fetch(`https://photoslibrary.googleapis.com/v1/albums/${albumData.id}:batchAddMediaItems`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${session.accessToken}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          mediaItemIds: photoIds
-        })
-      });
-      
-      if (!addResponse.ok) {
-        throw new Error(`Failed to add photos to album: ${addResponse.statusText}`);
+
+      const enrichmentNote = outcome.enrichmentFailures > 0
+        ? `${outcome.enrichmentFailures} headers, captions or cover updates could not be applied`
+        : "";
+      if (!created) {
+        setSummary(
+          (toAdd.length === 0
+            ? `All photos already in "${album.title}"`
+            : `Added ${outcome.added.length} photos to "${album.title}"` +
+              (present.size > 0 ? `, ${photoIds.length - toAdd.length} were already in it` : "")) +
+          (toRemove.length > 0 && !outcome.authExpired ? `, removed ${toRemove.length} deselected` : "") +
+          (enrichmentNote ? `. ${enrichmentNote}` : "")
+        );
+      } else if (enrichmentNote) {
+        setSummary(enrichmentNote);
+      }
+
+      if (outcome.failed.length === 0) {
+        // Notify parent component of successful album creation
+        onAlbumCreated(album);
+      } else {
+        setPartial({ album, outcome, created });
+      }
+      loadAlbums();
+    } catch (err) {
+      if (err instanceof PhotosApiError && err.status === 401) {
+        setAuthExpired(true);
+      } else {
+        console.error("Error creating album:", err);
+        setError(err instanceof Error ? err.message : String(err));
       }
-      
-      // Notify parent component of successful album creation
-      onAlbumCreated({
-        id: albumData.id,
-        title: albumData.title,
-        productUrl: albumData.productUrl
-      });
-      
-    } catch (error) {
-      console.error("Error creating album:", error);
     } finally {
       setIsCreating(false);
+      setProgress(null);
+    }
+  };
+
+  // Accept the album with the photos that made it in
+  const keepPartialAlbum = () => {
+    if (!partial) return;
+    onAlbumCreated(partial.album);
+    setPartial(null);
+  };
+
+  // Take the added photos back out; the API cannot delete the album itself
+  const rollBack = async () => {
+    if (!partial) return;
+
+    setIsRollingBack(true);
+    setError(null);
+    try {
+      await removeFromAlbumInBatches(partial.album.id, partial.outcome.added);
+      setRolledBackAlbum({ album: partial.album, created: partial.created });
+      setPartial(null);
+    } catch (err) {
+      if (err instanceof PhotosApiError && err.status === 401) {
+        setAuthExpired(true);
+      } else {
+        console.error("Error rolling back album:", err);
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    } finally {
+      setIsRollingBack(false);
     }
   };
-  
+
   return (
     <Card className="w-full max-w-md mx-auto mt-4">
       <CardHeader>
         <CardTitle>Create Album</CardTitle>
         <CardDescription>
-          Create a new album with your selected photos
+          Create a new album with your selected photos, or add them to an album made here before
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
+        {authExpired && <ReauthPrompt />}
+
+        {albums.length > 0 && (
+          <div className="flex flex-col space-y-2">
+            <Label>Target Album</Label>
+            <Select value={targetId} onValueChange={setTargetId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NEW_ALBUM}>New album</SelectItem>
+                {albums.map(album => (
+                  <SelectItem key={album.id} value={album.id}>
+                    {album.title} ({album.mediaItemsCount ?? 0} photos)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {targetAlbum ? (
+          <div className="flex items-center gap-2">
+            <Switch
+              id="remove-deselected"
+              checked={removeDeselected}
+              onCheckedChange={setRemoveDeselected}
+            />
+            <Label htmlFor="remove-deselected">
+              Remove photos of this set that are no longer selected
+            </Label>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-col space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="album-title">Album Title</Label>
+                {customTitle !== null && (
+                  <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setCustomTitle(null)}>
+                    Use suggestion
+                  </Button>
+                )}
+              </div>
+              <Input
+                id="album-title"
+                value={albumTitle}
+                onChange={(e) => setCustomTitle(e.target.value)}
+              />
+              <Button
+                variant="link"
+                size="sm"
+                className="h-auto self-start p-0"
+                onClick={() => setShowTemplate(!showTemplate)}
+              >
+                {showTemplate ? "Hide title template" : "Edit title template"}
+              </Button>
+            </div>
+
+            {showTemplate && (
+              <div className="flex flex-col space-y-2">
+                <Input
+                  aria-label="Title template"
+                  value={suggestion.template}
+                  onChange={(e) => suggestion.setTemplate(e.target.value)}
+                />
+                <ul className="text-xs text-gray-500">
+                  {TITLE_TOKENS.map(({ token, description }) => (
+                    <li key={token}>
+                      <code>{token}</code> {description}
+                    </li>
+                  ))}
+                </ul>
+                <p className="text-xs text-gray-500">
+                  Google Photos does not tell the app where picked photos were taken, so add any place
+                  name yourself.
+                </p>
+                <Button variant="outline" size="sm" className="self-start" onClick={suggestion.resetTemplate}>
+                  Reset template
+                </Button>
+              </div>
+            )}
+
+            <div className="flex flex-col space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="album-description">Description</Label>
+                {customDescription !== null && (
+                  <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setCustomDescription(null)}>
+                    Use suggestion
+                  </Button>
+                )}
+              </div>
+              <Textarea
+                id="album-description"
+                value={albumDescription}
+                onChange={(e) => setCustomDescription(e.target.value)}
+                placeholder="Shown at the top of the album; leave empty for none"
+              />
+            </div>
+          </div>
+        )}
+
         <div className="flex flex-col space-y-2">
-          <label htmlFor="album-title" className="text-sm font-medium">
-            Album Title
-          </label>
-          <input
-            id="album-title"
-            type="text"
-            value={albumTitle}
-            onChange={(e) => setAlbumTitle(e.target.value)}
-            className="px-3 py-2 border rounded-md"
-          />
+          <Label>Photo Order</Label>
+          <Select value={order} onValueChange={value => setOrder(value as AlbumOrder)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ALBUM_ORDER_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
-        
-        <Button 
-          onClick={createAlbum} 
-          disabled={!session || isCreating || photoIds.length === 0}
+
+        {(order === "captureTime" || order === "scene") && (
+          <div className="flex items-center gap-2">
+            <Switch id="section-headers" checked={sectionHeaders} onCheckedChange={setSectionHeaders} />
+            <Label htmlFor="section-headers">
+              {order === "captureTime"
+                ? "Add a header for each day"
+                : "Add a header for each scene and group of similar shots"}
+            </Label>
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <Switch id="score-captions" checked={scoreCaptions} onCheckedChange={setScoreCaptions} />
+          <Label htmlFor="score-captions">
+            Caption the top {MAX_SCORE_CAPTIONS} photos with their rank and score
+          </Label>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Switch id="set-cover" checked={setCover} onCheckedChange={setSetCover} />
+          <Label htmlFor="set-cover">Use the best photo as album cover</Label>
+        </div>
+
+        <Button
+          onClick={createAlbum}
+          disabled={!session || isCreating || partial !== null || photoIds.length === 0}
           className="w-full"
         >
-          {isCreating ? "Creating..." : `Create Album with ${photoIds.length} Photos`}
+          {isCreating
+            ? "Saving..."
+            : targetAlbum
+              ? `Add ${photoIds.length} Photos to Album`
+              : `Create Album with ${photoIds.length} Photos`}
         </Button>
+
+        {summary && <p className="text-sm text-gray-500">{summary}</p>}
+
+        {progress && (progress.total > 0 ? (
+          <div className="space-y-1">
+            <Progress value={(progress.processed / progress.total) * 100} />
+            <p className="text-sm text-gray-500 text-center">
+              Added {progress.processed} of {progress.total} photos
+            </p>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 text-center">All photos already in album</p>
+        ))}
+
+        {partial && (
+          <Alert variant="destructive">
+            <AlertTitle>
+              {partial.outcome.failed.length} of {photoIds.length} photos could not be added
+            </AlertTitle>
+            <AlertDescription className="space-y-3">
+              <ul className="max-h-40 overflow-y-auto text-sm">
+                {partial.outcome.failed.map(failure => (
+                  <li key={failure.mediaItemId} className="truncate">
+                    {filenameById.get(failure.mediaItemId) ?? failure.mediaItemId}: {failure.message}
+                  </li>
+                ))}
+              </ul>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={isRollingBack || partial.outcome.added.length === 0}
+                  onClick={keepPartialAlbum}
+                >
+                  Keep {partial.outcome.added.length} photos
+                </Button>
+                <Button variant="outline" size="sm" disabled={isRollingBack} onClick={rollBack}>
+                  {isRollingBack ? "Rolling back..." : "Roll back"}
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {rolledBackAlbum && (rolledBackAlbum.created ? (
+          <p className="text-sm text-gray-500">
+            The photos were removed again. Google Photos does not let apps delete albums, so{" "}
+            <a href={rolledBackAlbum.album.productUrl} target="_blank" rel="noreferrer" className="underline">
+              delete the empty album
+            </a>{" "}
+            yourself if you no longer need it.
+          </p>
+        ) : (
+          <p className="text-sm text-gray-500">
+            The photos added to &quot;{rolledBackAlbum.album.title}&quot; were removed again.
+          </p>
+        ))}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,140 @@
+"use client";
+
+import { useRef, useState, type DragEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { filesFromDataTransfer, importLocalFiles } from "@/lib/photos/local-files";
+import type { SelectedPhoto } from "@/lib/photos/types";
+
+/**
+ * LocalImport component that reads photos straight from the user's disk,
+ * from dropped files and folders or the file and folder choosers. Nothing is
+ * uploaded; the analyzer reads the files through object URLs.
+ */
+export function LocalImport({ onPhotosSelected }: { onPhotosSelected: (photos: SelectedPhoto[]) => void }) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Hash and hand over the images among the chosen files
+  const importFiles = async (files: File[]) => {
+    setError(null);
+    setProgress({ completed: 0, total: files.length });
+
+    try {
+      const photos = await importLocalFiles(files, (completed, total) => setProgress({ completed, total }));
+      if (photos.length === 0) {
+        setError("No supported images found (JPEG, PNG, WebP, GIF or AVIF)");
+        return;
+      }
+      onPhotosSelected(photos);
+    } catch (err) {
+      console.error("Error importing local files:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleDrop = async (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+
+    // Reading a dropped folder can fail part way (e.g. a removed card)
+    let files: File[];
+    try {
+      files = await filesFromDataTransfer(event.dataTransfer);
+    } catch (err) {
+      console.error("Error reading dropped files:", err);
+      setError(err instanceof Error ? err.message : String(err));
+      return;
+    }
+    importFiles(files);
+  };
+
+  const handleInputChange = (input: HTMLInputElement) => {
+    const files = Array.from(input.files ?? []);
+    // Clear the value so choosing the same folder again fires a change
+    input.value = "";
+    if (files.length > 0) {
+      importFiles(files);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle>Import From This Device</CardTitle>
+        <CardDescription>
+          Rank photos from a folder or camera card without uploading them
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`rounded-md border-2 border-dashed p-6 text-center text-sm ${
+            isDragging ? 'border-blue-500 bg-blue-50' : 'text-gray-500'
+          }`}
+        >
+          Drop photos or folders here
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            className="flex-1"
+            disabled={progress !== null}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            Choose photos
+          </Button>
+          <Button
+            variant="outline"
+            className="flex-1"
+            disabled={progress !== null}
+            onClick={() => folderInputRef.current?.click()}
+          >
+            Choose folder
+          </Button>
+        </div>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          hidden
+          onChange={(e) => handleInputChange(e.target)}
+        />
+        <input
+          ref={folderInputRef}
+          type="file"
+          multiple
+          hidden
+          // webkitdirectory is not in React's input props
+          {...{ webkitdirectory: "" }}
+          onChange={(e) => handleInputChange(e.target)}
+        />
+
+        {progress && (
+          <div className="space-y-1">
+            <Progress value={progress.total > 0 ? (progress.completed / progress.total) * 100 : 0} />
+            <p className="text-sm text-gray-500 text-center">
+              Reading {progress.completed} of {progress.total} files...
+            </p>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
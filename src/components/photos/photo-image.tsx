@@ -0,0 +1,50 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { invalidatePhotoUrl, resolvePhotoUrl } from "@/lib/photos/media-urls";
+import type { SelectedPhoto } from "@/lib/photos/types";
+
+/**
+ * PhotoImage component that shows a photo at the given size, resolving an
+ * expired Google baseUrl first and retrying once with a fresh one if the
+ * image still fails to load (Google answers expired URLs with 403)
+ */
+export function PhotoImage({
+  photo,
+  size,
+  className
+}: {
+  photo: SelectedPhoto,
+  size: number,
+  className?: string
+}) {
+  const [src, setSrc] = useState<string | null>(null);
+  const retriedRef = useRef(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    retriedRef.current = false;
+    resolvePhotoUrl(photo, size).then(url => {
+      if (!cancelled) setSrc(url);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [photo, size]);
+
+  const handleError = () => {
+    if (retriedRef.current) return;
+    retriedRef.current = true;
+    invalidatePhotoUrl(photo);
+    resolvePhotoUrl(photo, size).then(setSrc);
+  };
+
+  if (!src) {
+    return <div className={`bg-gray-100 ${className ?? ""}`} />;
+  }
+
+  // Blob and photo proxy URLs are already sized; next/image cannot optimise them
+  // eslint-disable-next-line @next/next/no-img-element
+  return <img src={src} alt={photo.filename} className={className} onError={handleError} />;
+}
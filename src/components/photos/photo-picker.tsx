@@ -1,129 +1,173 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useSession } from "next-auth/react";
+import { ReauthPrompt } from "@/components/auth/reauth-prompt";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  createPickerSession,
+  deletePickerSession,
+  getPickedPhotos,
+  getPickerSession,
+} from "@/lib/photos/client";
+import { PhotosApiError } from "@/lib/photos/errors";
+import { recordPickedPhotos } from "@/lib/photos/media-urls";
+import type { PickerSession, SelectedPhoto } from "@/lib/photos/types";
 
-// Define types for selected photos
-interface SelectedPhoto {
-  id: string;
-  baseUrl: string;
-  filename: string;
-  mimeType: string;
-}
+type PickerStatus = "idle" | "starting" | "picking" | "loading";
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
 /**
- * PhotoPicker component that integrates with Google Photos Picker API
- * to allow users to select photos for analysis
+ * PhotoPicker component that integrates with the Google Photos Picker API.
+ * It starts a picking session, opens Google's picker in a new window, polls
+ * until the user is done and hands the picked photos to onPhotosSelected.
+ * The session is kept afterwards: expired baseUrls of its photos can only be
+ * refreshed by listing its items again.
  */
-export function PhotoPicker({ onPhotosSelected }: { onPhotosSelected: (photos: SelectedPhoto[]) => void }) {
+export function PhotoPicker({
+  onPhotosSelected,
+  title = "Select Photos",
+  description = "Choose photos from your Google Photos library to analyze"
+}: {
+  onPhotosSelected: (photos: SelectedPhoto[]) => void,
+  title?: string,
+  description?: string
+}) {
   const { data: session } = useSession();
-  const [isLoading, setIsLoading] = useState(false);
-  
-  // Function to initialize and open the Google Photos Picker
+  const [status, setStatus] = useState<PickerStatus>("idle");
+  const [pickerSession, setPickerSession] = useState<PickerSession | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [authExpired, setAuthExpired] = useState(false);
+  // Bumped to abandon an in-flight poll (cancel or unmount)
+  const pollRunRef = useRef(0);
+  // Google's picker window, closed when picking is cancelled
+  const pickerWindowRef = useRef<Window | null>(null);
+
+  useEffect(() => {
+    const pollRun = pollRunRef;
+    return () => {
+      pollRun.current++;
+    };
+  }, []);
+
+  // Function to start a picking session and wait for the user's selection
   const openPhotoPicker = async () => {
-    if (!session?.accessToken) {
-      console.error("No access token available");
+    if (!session || session.error) {
+      console.error("Not signed in or Google access expired");
       return;
     }
-    
-    setIsLoading(true);
-    
+
+    const run = ++pollRunRef.current;
+    setStatus("starting");
+    setError(null);
+    setAuthExpired(false);
+
+    // Open the window before any await so popup blockers allow it
+    const pickerWindow = window.open("", "_blank");
+    pickerWindowRef.current = pickerWindow;
+
     try {
-      // Load the Google Photos Picker API script dynamically
-      if (!window.gapi) {
-        await loadGapiScript();
+      const created = await createPickerSession();
+      setPickerSession(created);
+      if (pickerWindow) {
+        // autoclose closes Google's window once the user taps Done
+        pickerWindow.location.href = `${created.pickerUri}/autoclose`;
       }
-      
-      if (!window.gapi.client) {
-        await new Promise<void>((resolve) => {
-          window.gapi.load('client', () => resolve());
-        });
+      setStatus("picking");
+
+      // Poll until the user has finished picking
+      const deadline = Date.now() + created.timeoutMs;
+      let current = created;
+      while (!current.mediaItemsSet) {
+        if (Date.now() > deadline) {
+          throw new Error("The picker timed out, please try again");
+        }
+        await wait(current.pollIntervalMs);
+        if (run !== pollRunRef.current) return;
+        current = await getPickerSession(created.id);
+      }
+
+      setStatus("loading");
+      const photos = await getPickedPhotos(created.id);
+      if (run !== pollRunRef.current) return;
+
+      recordPickedPhotos(photos);
+      onPhotosSelected(photos);
+    } catch (err) {
+      pickerWindowRef.current?.close();
+      if (err instanceof PhotosApiError && err.status === 401) {
+        setAuthExpired(true);
+      } else {
+        console.error("Error picking photos:", err);
+        setError(err instanceof Error ? err.message : String(err));
       }
-      
-      // Initialize the Google Photos Picker
-      await window.gapi.client.init({
-        apiKey: process.env.NEXT_PUBLIC_GOOGLE_API_KEY,
-        discoveryDocs: ['https://www.googleapis.com/discovery/v1/apis/photoslibrary/v1/rest'],
-      });
-      
-      // Create and configure the picker
-      const picker = new google.picker.PickerBuilder()
-        .addView(google.picker.ViewId.PHOTOS)
-        .setOAuthToken(session.accessToken as string)
-        .setDeveloperKey(process.env.NEXT_PUBLIC_GOOGLE_API_KEY as string)
-        .setCallback(pickerCallback)
-        .build();
-      
-      picker.setVisible(true);
-    } catch (error) {
-      console.error("Error opening photo picker:", error);
     } finally {
-      setIsLoading(false);
+      if (run === pollRunRef.current) {
+        setStatus("idle");
+        setPickerSession(null);
+      }
     }
   };
-  
-  // Callback function for the picker
-  const pickerCallback = (data: any) => {
-    if (data.action === google.picker.Action.PICKED) {
-      const selectedPhotos: SelectedPhoto[] = data.docs.map((doc: any) => ({
-        id: doc.id,
-        baseUrl: doc.baseUrl,
-        filename: doc.name,
-        mimeType: doc.mimeType
-      }));
-      
-      onPhotosSelected(selectedPhotos);
+
+  // Open the picker again if the user closed its window
+  const reopenPicker = () => {
+    if (pickerSession) {
+      pickerWindowRef.current = window.open(`${pickerSession.pickerUri}/autoclose`, "_blank");
     }
   };
-  
-  // Helper function to load the Google API script
-  const loadGapiScript = () => {
-    return new Promise<void>((resolve, reject) => {
-      const script = document.createElement('script');
-      script.src = 'https://apis.google.com/js/api.js';
-      script.onload = () => resolve();
-      script.onerror = (error) => reject(error);
-      document.body.appendChild(script);
-    });
+
+  // Stop waiting for the current picking session, closing the picker so
+  // nothing more is picked into the deleted session
+  const cancelPicking = () => {
+    pollRunRef.current++;
+    pickerWindowRef.current?.close();
+    pickerWindowRef.current = null;
+    if (pickerSession) {
+      deletePickerSession(pickerSession.id).catch(err => console.error("Error deleting picker session:", err));
+    }
+    setStatus("idle");
+    setPickerSession(null);
   };
-  
+
   return (
     <Card className="w-full max-w-md mx-auto">
       <CardHeader>
-        <CardTitle>Select Photos</CardTitle>
-        <CardDescription>
-          Choose photos from your Google Photos library to analyze
-        </CardDescription>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
       </CardHeader>
-      <CardContent>
-        <Button 
-          onClick={openPhotoPicker} 
-          disabled={!session || isLoading}
-          className="w-full"
-        >
-          {isLoading ? "Loading..." : "Open Google Photos Picker"}
-        </Button>
+      <CardContent className="space-y-3">
+        {authExpired && <ReauthPrompt />}
+
+        {status === "picking" && pickerSession ? (
+          <>
+            <p className="text-sm text-center">
+              Pick your photos in the Google Photos window, then press Done.
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={reopenPicker}>
+                Reopen picker
+              </Button>
+              <Button variant="ghost" className="flex-1" onClick={cancelPicking}>
+                Cancel
+              </Button>
+            </div>
+          </>
+        ) : (
+          <Button
+            onClick={openPhotoPicker}
+            disabled={!session || Boolean(session.error) || status !== "idle"}
+            className="w-full"
+          >
+            {status === "starting" && "Opening picker..."}
+            {status === "loading" && "Loading selected photos..."}
+            {status === "idle" && "Open Google Photos Picker"}
+          </Button>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
       </CardContent>
     </Card>
   );
 }
-
-// Add type definitions for Google API
-declare global {
-  interface Window {
-    gapi: any;
-    google: {
-      picker: {
-        PickerBuilder: any;
-        ViewId: {
-          PHOTOS: string;
-        };
-        Action: {
-          PICKED: string;
-        };
-      };
-    };
-  }
-}
@@ -0,0 +1,48 @@
+"use client";
+
+import { PhotoPicker } from "@/components/photos/photo-picker";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import type { SelectedPhoto } from "@/lib/photos/types";
+
+// Filenames listed before the rest are summarized as a count
+const LISTED_FILENAMES = 10;
+
+/**
+ * RepickPrompt component shown when Google no longer serves some photos
+ * because the picking session they came from has ended. Picking them again
+ * starts a new session their URLs are refreshed from; analysis results and
+ * curation are kept.
+ */
+export function RepickPrompt({
+  photos,
+  onPhotosRepicked
+}: {
+  photos: SelectedPhoto[],
+  onPhotosRepicked: (photos: SelectedPhoto[]) => void
+}) {
+  const hidden = photos.length - LISTED_FILENAMES;
+
+  return (
+    <div className="space-y-3">
+      <Alert variant="destructive">
+        <AlertTitle>Re-pick these photos</AlertTitle>
+        <AlertDescription className="space-y-2">
+          <p>
+            Google Photos no longer shows {photos.length} of these photos because the picking session
+            they came from has ended. Pick them again to keep viewing and analyzing them; your
+            results and selections are kept.
+          </p>
+          <p className="text-xs">
+            {photos.slice(0, LISTED_FILENAMES).map(photo => photo.filename).join(", ")}
+            {hidden > 0 && ` and ${hidden} more`}
+          </p>
+        </AlertDescription>
+      </Alert>
+      <PhotoPicker
+        title="Pick these photos again"
+        description="Select the photos listed above in Google Photos; other photos you pick are ignored"
+        onPhotosSelected={onPhotosRepicked}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import type { AnalysisSessionSummary } from "@/lib/sessions/types";
+
+/**
+ * SessionHistory component that lists past analysis sessions so they can be
+ * reopened, resumed, renamed or deleted
+ */
+export function SessionHistory({
+  sessions,
+  currentSessionId,
+  onOpen,
+  onRename,
+  onDelete
+}: {
+  sessions: AnalysisSessionSummary[],
+  currentSessionId: string | null,
+  onOpen: (id: string) => void,
+  onRename: (id: string, name: string) => void,
+  onDelete: (id: string) => void
+}) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+
+  if (sessions.length === 0) {
+    return null;
+  }
+
+  const saveName = () => {
+    if (editingId && editingName.trim()) {
+      onRename(editingId, editingName.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Past Sessions</CardTitle>
+        <CardDescription>
+          Reopen a session to keep curating, or resume an analysis that was interrupted
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y">
+          {sessions.map(item => {
+            const unfinished = item.analyzedCount < item.photoCount;
+
+            return (
+              <li key={item.id} className="flex flex-wrap items-center gap-2 py-2">
+                <div className="flex-1 min-w-0">
+                  {editingId === item.id ? (
+                    <Input
+                      autoFocus
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onBlur={saveName}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") saveName();
+                        if (e.key === "Escape") setEditingId(null);
+                      }}
+                    />
+                  ) : (
+                    <p className="font-medium truncate">
+                      {item.name}
+                      {item.id === currentSessionId && (
+                        <Badge variant="secondary" className="ml-2">Current</Badge>
+                      )}
+                    </p>
+                  )}
+                  <p className="text-sm text-gray-500">
+                    {new Date(`${item.updatedAt.replace(" ", "T")}Z`).toLocaleString()} · {item.analyzedCount} of {item.photoCount} analyzed
+                    {item.albumTitle && ` · album "${item.albumTitle}"`}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={item.id === currentSessionId}
+                  onClick={() => onOpen(item.id)}
+                >
+                  {unfinished ? "Resume" : "Open"}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setEditingId(item.id);
+                    setEditingName(item.name);
+                  }}
+                >
+                  Rename
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => onDelete(item.id)}>
+                  Delete
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
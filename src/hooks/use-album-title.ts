@@ -0,0 +1,57 @@
+"use client"
+
+import * as React from "react"
+
+import type { AnalysisResult } from "@/lib/analysis"
+import {
+  DEFAULT_TITLE_TEMPLATE,
+  describeAlbum,
+  dominantScene,
+  formatDateRange,
+  renderTitleTemplate,
+  type AlbumTitleValues,
+} from "@/lib/photos/album-title"
+import type { SelectedPhoto } from "@/lib/photos/types"
+
+const STORAGE_PREFIX = "album-title-template"
+
+/**
+ * Suggested album title and description for the photos going into an album,
+ * from their capture dates and scene types. Places are left out: the Picker
+ * API gives apps no photo locations, and albums are only made from picked
+ * photos. The title template is persisted per user in localStorage (keyed by
+ * the signed-in account).
+ */
+export function useAlbumTitle(
+  userKey: string | null | undefined,
+  photos: SelectedPhoto[],
+  results: AnalysisResult[],
+  total: number
+) {
+  const storageKey = `${STORAGE_PREFIX}:${userKey ?? "anonymous"}`
+  const [template, setTemplateState] = React.useState(DEFAULT_TITLE_TEMPLATE)
+
+  React.useEffect(() => {
+    setTemplateState(window.localStorage.getItem(storageKey) ?? DEFAULT_TITLE_TEMPLATE)
+  }, [storageKey])
+
+  const setTemplate = (next: string) => {
+    setTemplateState(next)
+    window.localStorage.setItem(storageKey, next)
+  }
+
+  const values: AlbumTitleValues = {
+    dates: formatDateRange(photos),
+    scene: dominantScene(results),
+    count: photos.length,
+    total,
+  }
+
+  return {
+    template,
+    setTemplate,
+    resetTemplate: () => setTemplate(DEFAULT_TITLE_TEMPLATE),
+    title: renderTitleTemplate(template, values),
+    description: describeAlbum(values),
+  }
+}
@@ -0,0 +1,110 @@
+"use client"
+
+import * as React from "react"
+
+import type { SelectedPhoto } from "@/lib/photos/types"
+import type {
+  AnalysisSession,
+  AnalysisSessionState,
+  AnalysisSessionSummary,
+} from "@/lib/sessions/types"
+
+type SessionChanges = Partial<AnalysisSessionState> & { name?: string }
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  })
+  if (!response.ok) {
+    throw new Error(`${init?.method ?? "GET"} ${url} failed: ${response.statusText}`)
+  }
+  return response.status === 204 ? (undefined as T) : response.json()
+}
+
+/**
+ * Server-side analysis sessions: the history list plus create, open, save
+ * and delete. Failures are logged and reported as null/false so the page
+ * keeps working without persistence.
+ */
+export function useAnalysisSessions(enabled: boolean) {
+  const [sessions, setSessions] = React.useState<AnalysisSessionSummary[]>([])
+
+  const refresh = React.useCallback(async () => {
+    try {
+      const data = await request<{ sessions: AnalysisSessionSummary[] }>("/api/sessions")
+      setSessions(data.sessions)
+    } catch (error) {
+      console.error("Error loading sessions:", error)
+    }
+  }, [])
+
+  React.useEffect(() => {
+    if (enabled) refresh()
+  }, [enabled, refresh])
+
+  const createSession = async (name: string, photos: SelectedPhoto[]) => {
+    try {
+      const { id } = await request<{ id: string }>("/api/sessions", {
+        method: "POST",
+        body: JSON.stringify({ name, photos }),
+      })
+      refresh()
+      return id
+    } catch (error) {
+      console.error("Error creating session:", error)
+      return null
+    }
+  }
+
+  const openSession = React.useCallback(async (id: string) => {
+    try {
+      const { session } = await request<{ session: AnalysisSession }>(`/api/sessions/${id}`)
+      return session
+    } catch (error) {
+      console.error("Error opening session:", error)
+      return null
+    }
+  }, [])
+
+  const updateSession = React.useCallback(
+    async (id: string, changes: SessionChanges) => {
+      try {
+        await request(`/api/sessions/${id}`, {
+          method: "PATCH",
+          body: JSON.stringify(changes),
+        })
+        return true
+      } catch (error) {
+        console.error("Error saving session:", error)
+        return false
+      }
+    },
+    []
+  )
+
+  const renameSession = async (id: string, name: string) => {
+    if (await updateSession(id, { name })) refresh()
+  }
+
+  const deleteSession = async (id: string) => {
+    try {
+      await request(`/api/sessions/${id}`, { method: "DELETE" })
+      refresh()
+      return true
+    } catch (error) {
+      console.error("Error deleting session:", error)
+      return false
+    }
+  }
+
+  return {
+    sessions,
+    refresh,
+    createSession,
+    openSession,
+    updateSession,
+    renameSession,
+    deleteSession,
+  }
+}
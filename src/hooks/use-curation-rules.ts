@@ -0,0 +1,44 @@
+"use client"
+
+import * as React from "react"
+
+import { DEFAULT_CURATION_RULES, type CurationRules } from "@/lib/analysis"
+
+const STORAGE_PREFIX = "curation-rules"
+
+// Read saved rules, filling in any added since they were stored
+function loadRules(storageKey: string): CurationRules {
+  try {
+    const raw = window.localStorage.getItem(storageKey)
+    return raw
+      ? { ...DEFAULT_CURATION_RULES, ...(JSON.parse(raw) as Partial<CurationRules>) }
+      : DEFAULT_CURATION_RULES
+  } catch (error) {
+    console.error("Error loading curation rules:", error)
+    return DEFAULT_CURATION_RULES
+  }
+}
+
+/**
+ * Auto-curation rules, persisted per user in localStorage (keyed by the
+ * signed-in account).
+ */
+export function useCurationRules(userKey: string | null | undefined) {
+  const storageKey = `${STORAGE_PREFIX}:${userKey ?? "anonymous"}`
+  const [rules, setRules] = React.useState<CurationRules>(DEFAULT_CURATION_RULES)
+
+  React.useEffect(() => {
+    setRules(loadRules(storageKey))
+  }, [storageKey])
+
+  const updateRules = (changes: Partial<CurationRules>) =>
+    setRules((prev) => {
+      const next = { ...prev, ...changes }
+      window.localStorage.setItem(storageKey, JSON.stringify(next))
+      return next
+    })
+
+  const resetRules = () => updateRules(DEFAULT_CURATION_RULES)
+
+  return { rules, updateRules, resetRules }
+}
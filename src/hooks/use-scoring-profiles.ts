@@ -0,0 +1,129 @@
+"use client"
+
+import * as React from "react"
+
+import {
+  BUILT_IN_PROFILES,
+  DEFAULT_PROFILE_ID,
+  DEFAULT_SCORING_WEIGHTS,
+  type ScoringProfile,
+  type ScoringWeights,
+} from "@/lib/analysis"
+
+const STORAGE_PREFIX = "scoring-profiles"
+
+interface ProfileState {
+  activeProfileId: string
+  profiles: ScoringProfile[]
+}
+
+const DEFAULT_STATE: ProfileState = {
+  activeProfileId: DEFAULT_PROFILE_ID,
+  profiles: BUILT_IN_PROFILES,
+}
+
+// Read saved profiles, filling in built-ins and any weights added since
+function loadProfiles(storageKey: string): ProfileState {
+  try {
+    const raw = window.localStorage.getItem(storageKey)
+    if (!raw) return DEFAULT_STATE
+
+    const stored = JSON.parse(raw) as Partial<ProfileState>
+    const saved = (stored.profiles ?? []).map((profile) => ({
+      ...profile,
+      weights: { ...DEFAULT_SCORING_WEIGHTS, ...profile.weights },
+    }))
+    const missingBuiltIns = BUILT_IN_PROFILES.filter(
+      (builtIn) => !saved.some((profile) => profile.id === builtIn.id)
+    )
+    const profiles = [...missingBuiltIns, ...saved]
+
+    return {
+      activeProfileId: profiles.some((p) => p.id === stored.activeProfileId)
+        ? stored.activeProfileId!
+        : DEFAULT_PROFILE_ID,
+      profiles,
+    }
+  } catch (error) {
+    console.error("Error loading scoring profiles:", error)
+    return DEFAULT_STATE
+  }
+}
+
+/**
+ * Named scoring profiles with editable weights, persisted per user in
+ * localStorage (keyed by the signed-in account).
+ */
+export function useScoringProfiles(userKey: string | null | undefined) {
+  const storageKey = `${STORAGE_PREFIX}:${userKey ?? "anonymous"}`
+  const [state, setState] = React.useState<ProfileState>(DEFAULT_STATE)
+
+  React.useEffect(() => {
+    setState(loadProfiles(storageKey))
+  }, [storageKey])
+
+  const update = React.useCallback(
+    (updater: (prev: ProfileState) => ProfileState) => {
+      setState((prev) => {
+        const next = updater(prev)
+        window.localStorage.setItem(storageKey, JSON.stringify(next))
+        return next
+      })
+    },
+    [storageKey]
+  )
+
+  const activeProfile =
+    state.profiles.find((profile) => profile.id === state.activeProfileId) ??
+    BUILT_IN_PROFILES[0]
+
+  const selectProfile = (id: string) =>
+    update((prev) => ({ ...prev, activeProfileId: id }))
+
+  const updateWeights = (id: string, weights: Partial<ScoringWeights>) =>
+    update((prev) => ({
+      ...prev,
+      profiles: prev.profiles.map((profile) =>
+        profile.id === id
+          ? { ...profile, weights: { ...profile.weights, ...weights } }
+          : profile
+      ),
+    }))
+
+  // Copy the active profile's weights under a new name and switch to it
+  const createProfile = (name: string) => {
+    const id = `custom-${Date.now()}`
+    update((prev) => ({
+      activeProfileId: id,
+      profiles: [
+        ...prev.profiles,
+        { id, name, builtIn: false, weights: { ...activeProfile.weights } },
+      ],
+    }))
+  }
+
+  const deleteProfile = (id: string) =>
+    update((prev) => ({
+      activeProfileId:
+        prev.activeProfileId === id ? DEFAULT_PROFILE_ID : prev.activeProfileId,
+      profiles: prev.profiles.filter(
+        (profile) => profile.builtIn || profile.id !== id
+      ),
+    }))
+
+  // Restore a built-in profile's shipped weights
+  const resetProfile = (id: string) => {
+    const builtIn = BUILT_IN_PROFILES.find((profile) => profile.id === id)
+    if (builtIn) updateWeights(id, builtIn.weights)
+  }
+
+  return {
+    profiles: state.profiles,
+    activeProfile,
+    selectProfile,
+    updateWeights,
+    createProfile,
+    deleteProfile,
+    resetProfile,
+  }
+}
@@ -0,0 +1,380 @@
+import { grayHistogram, rgbToHsv, toGrayscale } from "./pixels";
+import type { AestheticResult, InterestPoint, PixelBuffer } from "./types";
+
+export interface DominantColor {
+  count: number;
+  r: number;
+  g: number;
+  b: number;
+  hue: number;
+  sat: number;
+  val: number;
+}
+
+/**
+ * Heuristic aesthetic evaluation based on composition rules. Used when the
+ * NIMA model (see ./nima) is unavailable.
+ */
+export function analyzeAesthetics(pixels: PixelBuffer): AestheticResult {
+  // Analyze color harmony
+  const colorScore = analyzeColorHarmony(pixels);
+
+  // Analyze composition
+  const compositionScore = analyzeComposition(pixels);
+
+  // Analyze contrast
+  const contrastScore = analyzeContrast(pixels);
+
+  // Generate a simulated score distribution (1-10) around the heuristic mean
+  const meanScore = (colorScore * 0.4 + compositionScore * 0.4 + contrastScore * 0.2) * 9 + 1;
+  const scoreDistribution = generateScoreDistribution(meanScore);
+  const { stdDev } = distributionStats(scoreDistribution);
+
+  return {
+    meanScore,
+    stdDev,
+    scoreDistribution,
+    source: "heuristic"
+  };
+}
+
+// Mean and standard deviation of a 10-bucket score distribution (scores 1-10)
+export function distributionStats(distribution: number[]): { meanScore: number; stdDev: number } {
+  let meanScore = 0;
+  for (let i = 0; i < distribution.length; i++) {
+    meanScore += (i + 1) * distribution[i];
+  }
+
+  let variance = 0;
+  for (let i = 0; i < distribution.length; i++) {
+    variance += Math.pow(i + 1 - meanScore, 2) * distribution[i];
+  }
+
+  return { meanScore, stdDev: Math.sqrt(variance) };
+}
+
+// Analyze color harmony
+export function analyzeColorHarmony(pixels: PixelBuffer): number {
+  // Extract dominant colors
+  const colors = extractDominantColors(pixels);
+
+  // Calculate color harmony score based on hue differences
+  let harmonyScore = 0;
+
+  if (colors.length >= 2) {
+    // Check for complementary colors (hues ~180° apart)
+    // Check for analogous colors (hues within 30° of each other)
+    // Check for triadic colors (hues ~120° apart)
+
+    let complementaryCount = 0;
+    let analogousCount = 0;
+    let triadicCount = 0;
+
+    for (let i = 0; i < colors.length; i++) {
+      for (let j = i + 1; j < colors.length; j++) {
+        const hueDiff = Math.abs(colors[i].hue - colors[j].hue);
+        const normalizedHueDiff = Math.min(hueDiff, 360 - hueDiff);
+
+        if (normalizedHueDiff > 165 && normalizedHueDiff < 195) {
+          complementaryCount++;
+        } else if (normalizedHueDiff < 30) {
+          analogousCount++;
+        } else if (normalizedHueDiff > 105 && normalizedHueDiff < 135) {
+          triadicCount++;
+        }
+      }
+    }
+
+    // Calculate harmony score based on color relationships
+    harmonyScore = Math.min(1, (complementaryCount * 0.3 + analogousCount * 0.2 + triadicCount * 0.2) / colors.length);
+  }
+
+  return harmonyScore;
+}
+
+// Extract dominant colors from image
+export function extractDominantColors(pixels: PixelBuffer, maxColors = 5): DominantColor[] {
+  const pixelCount = pixels.width * pixels.height;
+  const sampleRate = Math.max(1, Math.floor(pixelCount / 1000)); // Sample at most 1000 pixels
+
+  const colorMap = new Map<string, DominantColor>();
+
+  // Sample pixels and count colors
+  for (let i = 0; i < pixelCount; i += sampleRate) {
+    const idx = i * 4;
+    const r = pixels.data[idx];
+    const g = pixels.data[idx + 1];
+    const b = pixels.data[idx + 2];
+
+    // Convert to HSV
+    const hsv = rgbToHsv(r, g, b);
+
+    // Quantize colors to reduce variety
+    const quantizedR = Math.floor(r / 16) * 16;
+    const quantizedG = Math.floor(g / 16) * 16;
+    const quantizedB = Math.floor(b / 16) * 16;
+
+    const colorKey = `${quantizedR},${quantizedG},${quantizedB}`;
+
+    if (colorMap.has(colorKey)) {
+      colorMap.get(colorKey)!.count++;
+    } else {
+      colorMap.set(colorKey, {
+        count: 1,
+        r: quantizedR,
+        g: quantizedG,
+        b: quantizedB,
+        hue: hsv.h,
+        sat: hsv.s,
+        val: hsv.v
+      });
+    }
+  }
+
+  // Sort colors by count and take top N
+  return Array.from(colorMap.values())
+    .sort((a, b) => b.count - a.count)
+    .slice(0, maxColors);
+}
+
+// Analyze composition using rule of thirds and visual balance
+export function analyzeComposition(pixels: PixelBuffer): number {
+  const width = pixels.width;
+  const height = pixels.height;
+
+  // Calculate rule of thirds points
+  const thirdX1 = Math.floor(width / 3);
+  const thirdX2 = Math.floor(width * 2 / 3);
+  const thirdY1 = Math.floor(height / 3);
+  const thirdY2 = Math.floor(height * 2 / 3);
+
+  // Find edges using a simple gradient approach
+  const edges = findEdges(pixels);
+
+  // Calculate interest at rule of thirds points
+  const ruleOfThirdsScore = calculateRuleOfThirdsScore(edges, width, height, thirdX1, thirdX2, thirdY1, thirdY2);
+
+  // Calculate visual balance
+  const balanceScore = calculateVisualBalance(edges, width, height);
+
+  // Combine scores
+  return (ruleOfThirdsScore * 0.6 + balanceScore * 0.4);
+}
+
+// Find edges in image
+export function findEdges(pixels: PixelBuffer): Uint8Array {
+  const width = pixels.width;
+  const height = pixels.height;
+  const edges = new Uint8Array(width * height);
+  const gray = toGrayscale(pixels);
+
+  // Simple gradient-based edge detection
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const idx = y * width + x;
+
+      // Horizontal and vertical gradients
+      const gx = Math.abs(gray[idx - 1] - gray[idx + 1]);
+      const gy = Math.abs(gray[idx - width] - gray[idx + width]);
+
+      // Gradient magnitude
+      const g = Math.sqrt(gx * gx + gy * gy);
+
+      // Threshold
+      edges[idx] = g > 30 ? 255 : 0;
+    }
+  }
+
+  return edges;
+}
+
+// Edge-dense cells of a gridSize x gridSize grid, strongest first
+export function findInterestPoints(
+  edges: Uint8Array,
+  width: number,
+  height: number,
+  gridSize = 12,
+  maxPoints = 5
+): InterestPoint[] {
+  const density = new Float64Array(gridSize * gridSize);
+
+  for (let y = 0; y < height; y++) {
+    const cy = Math.min(gridSize - 1, Math.floor((y * gridSize) / height));
+    for (let x = 0; x < width; x++) {
+      if (edges[y * width + x] > 0) {
+        const cx = Math.min(gridSize - 1, Math.floor((x * gridSize) / width));
+        density[cy * gridSize + cx]++;
+      }
+    }
+  }
+
+  const maxDensity = Math.max(...density);
+  if (maxDensity === 0) {
+    return [];
+  }
+
+  return Array.from(density, (count, cell) => ({
+    x: ((cell % gridSize) + 0.5) / gridSize,
+    y: (Math.floor(cell / gridSize) + 0.5) / gridSize,
+    strength: count / maxDensity
+  }))
+    // Ignore cells that are barely busier than the background
+    .filter(point => point.strength >= 0.5)
+    .sort((a, b) => b.strength - a.strength)
+    .slice(0, maxPoints);
+}
+
+// Calculate rule of thirds score
+function calculateRuleOfThirdsScore(
+  edges: Uint8Array,
+  width: number,
+  height: number,
+  thirdX1: number,
+  thirdX2: number,
+  thirdY1: number,
+  thirdY2: number
+) {
+  // Define regions around rule of thirds points
+  const regionSize = Math.floor(Math.min(width, height) / 10);
+  const regions = [
+    { x: thirdX1, y: thirdY1 }, // Top-left intersection
+    { x: thirdX2, y: thirdY1 }, // Top-right intersection
+    { x: thirdX1, y: thirdY2 }, // Bottom-left intersection
+    { x: thirdX2, y: thirdY2 }  // Bottom-right intersection
+  ];
+
+  // Calculate edge density in each region
+  let totalEdgePixels = 0;
+  let intersectionEdgePixels = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = y * width + x;
+
+      if (edges[idx] > 0) {
+        totalEdgePixels++;
+
+        // Check if pixel is near any rule of thirds intersection
+        for (const region of regions) {
+          if (Math.abs(x - region.x) <= regionSize && Math.abs(y - region.y) <= regionSize) {
+            intersectionEdgePixels++;
+            break;
+          }
+        }
+      }
+    }
+  }
+
+  // If no edges found, return neutral score
+  if (totalEdgePixels === 0) {
+    return 0.5;
+  }
+
+  // Calculate ratio of edges at intersections vs. total edges
+  const expectedRatio = (4 * regionSize * regionSize) / (width * height);
+  const actualRatio = intersectionEdgePixels / totalEdgePixels;
+
+  // Score is higher when actual ratio exceeds expected ratio
+  return Math.min(1, actualRatio / (expectedRatio * 2));
+}
+
+// Calculate visual balance
+function calculateVisualBalance(edges: Uint8Array, width: number, height: number) {
+  const centerX = Math.floor(width / 2);
+  const centerY = Math.floor(height / 2);
+
+  let leftWeight = 0;
+  let rightWeight = 0;
+  let topWeight = 0;
+  let bottomWeight = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = y * width + x;
+
+      if (edges[idx] > 0) {
+        // Horizontal balance
+        if (x < centerX) {
+          leftWeight++;
+        } else {
+          rightWeight++;
+        }
+
+        // Vertical balance
+        if (y < centerY) {
+          topWeight++;
+        } else {
+          bottomWeight++;
+        }
+      }
+    }
+  }
+
+  // Calculate balance ratios (closer to 1 is better balanced)
+  const horizontalBalance = Math.min(leftWeight, rightWeight) / Math.max(leftWeight, rightWeight);
+  const verticalBalance = Math.min(topWeight, bottomWeight) / Math.max(topWeight, bottomWeight);
+
+  // Combine horizontal and vertical balance
+  return (horizontalBalance * 0.5 + verticalBalance * 0.5);
+}
+
+// Analyze contrast
+export function analyzeContrast(pixels: PixelBuffer): number {
+  const histogram = grayHistogram(pixels);
+
+  // Find percentiles
+  const pixelCount = pixels.width * pixels.height;
+  let sum = 0;
+
+  let p5 = 0;
+  let p95 = 255;
+
+  // Find 5th percentile
+  for (let i = 0; i < 256; i++) {
+    sum += histogram[i];
+    if (sum >= pixelCount * 0.05) {
+      p5 = i;
+      break;
+    }
+  }
+
+  // Reset sum and find 95th percentile
+  sum = 0;
+  for (let i = 255; i >= 0; i--) {
+    sum += histogram[i];
+    if (sum >= pixelCount * 0.05) {
+      p95 = i;
+      break;
+    }
+  }
+
+  // Calculate contrast ratio
+  const contrastRange = p95 - p5;
+
+  // Normalize to 0-1 range
+  // Ideal contrast range is around 200
+  return Math.min(1, contrastRange / 200);
+}
+
+// Generate a simulated score distribution around a mean
+export function generateScoreDistribution(meanScore: number): number[] {
+  const distribution = new Array(10).fill(0);
+
+  // Create a bell curve around the mean
+  const stdDev = 1.0;
+  let sum = 0;
+
+  for (let i = 0; i < 10; i++) {
+    const score = i + 1; // Scores are 1-10
+    const z = (score - meanScore) / stdDev;
+    distribution[i] = Math.exp(-0.5 * z * z);
+    sum += distribution[i];
+  }
+
+  // Normalize to sum to 1
+  for (let i = 0; i < 10; i++) {
+    distribution[i] /= sum;
+  }
+
+  return distribution;
+}
@@ -0,0 +1,53 @@
+import { loadFaceModels, setupWorkerFaceEnv } from "./faces";
+import { loadAestheticModel } from "./nima";
+import { analyzeImage } from "./pipeline";
+import type { WorkerRequest, WorkerResponse } from "./worker-protocol";
+
+// The DOM lib types `self` as Window; narrow it to what a dedicated worker offers
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage(message: WorkerResponse): void;
+};
+
+const canvas = new OffscreenCanvas(1, 1);
+
+// Load models once per worker; every task waits on this
+const modelsReady = (async () => {
+  setupWorkerFaceEnv();
+  await Promise.all([loadFaceModels(), loadAestheticModel()]);
+})();
+
+modelsReady.then(
+  () => scope.postMessage({ type: "ready" }),
+  (error) => scope.postMessage({ type: "init-error", message: errorMessage(error) })
+);
+
+scope.onmessage = async ({ data }) => {
+  if (data.type !== "analyze") {
+    return;
+  }
+
+  try {
+    await modelsReady;
+
+    // Fetch and decode off the main thread
+    const response = await fetch(data.url);
+    if (!response.ok) {
+      throw new Error(`Failed to load image: ${response.status} ${response.statusText}`);
+    }
+    const bitmap = await createImageBitmap(await response.blob());
+
+    try {
+      const result = await analyzeImage(data.photoId, bitmap, canvas, data.settings);
+      scope.postMessage({ type: "result", taskId: data.taskId, result });
+    } finally {
+      bitmap.close();
+    }
+  } catch (error) {
+    scope.postMessage({ type: "error", taskId: data.taskId, message: errorMessage(error) });
+  }
+};
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
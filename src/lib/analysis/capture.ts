@@ -0,0 +1,78 @@
+import type { CaptureAssessment, CaptureSettings } from "./types";
+
+// ISO at which expectedNoise reaches 1 (six stops above base ISO 100)
+const HIGH_ISO = 6400;
+
+// Focal length assumed when the camera does not report one (a normal lens)
+const DEFAULT_FOCAL_LENGTH_35MM = 50;
+// Crop factor assumed when only the actual focal length is known (APS-C)
+const DEFAULT_CROP_FACTOR = 1.5;
+
+// Blur scores at or above this prove the camera held still
+const SHARP_BLUR_SCORE = 0.6;
+// Largest share of a soft blur score taken away by a risky shutter speed
+const MOTION_BLUR_PENALTY = 0.3;
+// Largest share of the gap to a clean score given back at base ISO
+const LOW_ISO_NOISE_CREDIT = 0.5;
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+/**
+ * Predict noise and camera-shake risk from the settings a photo was taken
+ * with, or null when neither ISO nor shutter speed is known. Shake risk uses
+ * the reciprocal rule: 1/focal length (35mm equivalent) is safe to hand-hold.
+ */
+export function assessCapture(settings: CaptureSettings | undefined): CaptureAssessment | null {
+  const iso = settings?.iso ?? null;
+  const exposureTime = settings?.exposureTime ?? null;
+  if (iso === null && exposureTime === null) {
+    return null;
+  }
+
+  const focalLength35mm = settings?.focalLength35mm
+    ?? (settings?.focalLength ? settings.focalLength * DEFAULT_CROP_FACTOR : DEFAULT_FOCAL_LENGTH_35MM);
+  const safeShutterTime = 1 / focalLength35mm;
+
+  return {
+    iso,
+    exposureTime,
+    safeShutterTime,
+    expectedNoise: iso !== null && iso > 0
+      ? clamp01(Math.log2(iso / 100) / Math.log2(HIGH_ISO / 100))
+      : null,
+    motionBlurRisk: exposureTime !== null && exposureTime > 0
+      ? clamp01((Math.log2(exposureTime / safeShutterTime) + 1) / 3)
+      : null
+  };
+}
+
+// A slow shutter makes a soft reading more likely to be real motion blur
+// than a low-detail scene. Frames measured as sharp are left alone.
+export function adjustBlurForCapture(blurScore: number, capture: CaptureAssessment | null): number {
+  const risk = capture?.motionBlurRisk ?? null;
+  if (risk === null || blurScore >= SHARP_BLUR_SCORE) {
+    return blurScore;
+  }
+  return blurScore * (1 - MOTION_BLUR_PENALTY * risk);
+}
+
+// Fine texture is easily mistaken for noise. At base ISO real noise is
+// unlikely, so the measured score is pulled towards clean; at high ISO the
+// measurement stands.
+export function adjustNoiseForCapture(noiseScore: number, capture: CaptureAssessment | null): number {
+  const expected = capture?.expectedNoise ?? null;
+  if (expected === null) {
+    return noiseScore;
+  }
+  return noiseScore + (1 - noiseScore) * (1 - expected) * LOW_ISO_NOISE_CREDIT;
+}
+
+// Shutter speed as photographers write it: "1/250s", "0.5s", "2s"
+export function formatExposureTime(seconds: number): string {
+  if (seconds >= 0.3) {
+    return `${Math.round(seconds * 10) / 10}s`;
+  }
+  return `1/${Math.round(1 / seconds)}s`;
+}
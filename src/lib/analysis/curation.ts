@@ -0,0 +1,172 @@
+// Rules the automatic selection must satisfy. Null turns a rule off.
+export interface CurationRules {
+  // How many photos to select
+  targetCount: number;
+  // Most photos taken within the same clock hour
+  maxPerHour: number | null;
+  // Least share of the selection (0-1) that shows at least one face
+  minFaceShare: number | null;
+  // Lowest sharpness (blurScore, 0-1) a photo may have
+  minSharpness: number | null;
+  // Take at most one frame from each near-duplicate cluster
+  excludeNearDuplicates: boolean;
+}
+
+// The best frame of each of the top 10 near-duplicate clusters
+export const DEFAULT_CURATION_RULES: CurationRules = {
+  targetCount: 10,
+  maxPerHour: null,
+  minFaceShare: null,
+  minSharpness: null,
+  excludeNearDuplicates: true
+};
+
+export interface CurationCandidate {
+  photoId: string;
+  overallScore: number;
+  sharpness: number;
+  faceCount: number;
+  // Capture time in epoch milliseconds, when known
+  capturedAt?: number;
+  // Near-duplicate cluster the photo belongs to, if any
+  clusterId?: string;
+}
+
+export interface CurationDecision {
+  photoId: string;
+  included: boolean;
+  reason: string;
+}
+
+export interface CurationOutcome {
+  // Selected photo ids, best first
+  selectedIds: string[];
+  // One decision per candidate, in candidate order
+  decisions: CurationDecision[];
+  // Rules that could not be fully met with the photos available
+  warnings: string[];
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// Start of the local clock hour a photo was taken in, so buckets match the
+// times shown to the user even in half-hour timezones
+function localHourStart(capturedAt: number): Date {
+  const time = new Date(capturedAt);
+  return new Date(time.getFullYear(), time.getMonth(), time.getDate(), time.getHours());
+}
+
+function hourLabel(capturedAt: number): string {
+  return localHourStart(capturedAt)
+    .toLocaleString(undefined, { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" });
+}
+
+/**
+ * Pick photos that satisfy the curation rules, explaining each decision.
+ * Candidates are expected ranked best first and are taken greedily: hard
+ * rules (sharpness, near-duplicates, per-hour cap) exclude a photo, while
+ * the face quota reserves slots for photos with faces and only gives them
+ * up when too few such photos qualify.
+ */
+export function curatePhotos(candidates: CurationCandidate[], rules: CurationRules): CurationOutcome {
+  const target = Math.max(0, Math.floor(rules.targetCount));
+  const facesNeeded = rules.minFaceShare === null ? 0 : Math.ceil(rules.minFaceShare * target);
+  const reasons = new Map<string, { included: boolean; reason: string }>();
+  const selected: CurationCandidate[] = [];
+  const perHour = new Map<number, number>();
+  const clusterPick = new Map<string, string>();
+  // Photos without faces passed over to keep room for the face quota
+  const heldBack: CurationCandidate[] = [];
+
+  const rankOf = new Map(candidates.map((candidate, index) => [candidate.photoId, index + 1]));
+  const hourOf = (candidate: CurationCandidate) =>
+    candidate.capturedAt === undefined ? null : localHourStart(candidate.capturedAt).getTime();
+
+  // Reasons a photo cannot be selected right now, or null if it can
+  const blockedBy = (candidate: CurationCandidate): string | null => {
+    if (rules.minSharpness !== null && candidate.sharpness < rules.minSharpness) {
+      return `Sharpness ${percent(candidate.sharpness)} is below the ${percent(rules.minSharpness)} minimum`;
+    }
+    const pickedInCluster = candidate.clusterId && clusterPick.get(candidate.clusterId);
+    if (rules.excludeNearDuplicates && pickedInCluster) {
+      return `Near-duplicate of #${rankOf.get(pickedInCluster)}, which ranked higher and is selected`;
+    }
+    const hour = hourOf(candidate);
+    if (rules.maxPerHour !== null && hour !== null && (perHour.get(hour) ?? 0) >= rules.maxPerHour) {
+      return `Already ${rules.maxPerHour} photo${rules.maxPerHour === 1 ? "" : "s"} from the hour starting ${hourLabel(candidate.capturedAt!)}`;
+    }
+    return null;
+  };
+
+  const select = (candidate: CurationCandidate, reason: string) => {
+    selected.push(candidate);
+    const hour = hourOf(candidate);
+    if (hour !== null) perHour.set(hour, (perHour.get(hour) ?? 0) + 1);
+    if (candidate.clusterId) clusterPick.set(candidate.clusterId, candidate.photoId);
+    reasons.set(candidate.photoId, { included: true, reason });
+  };
+
+  const rankReason = (candidate: CurationCandidate) =>
+    `Ranked #${rankOf.get(candidate.photoId)} with ${percent(candidate.overallScore)}` +
+    (facesNeeded > 0 && candidate.faceCount > 0 ? ", counts toward the face quota" : "");
+
+  for (const candidate of candidates) {
+    if (selected.length >= target) {
+      reasons.set(candidate.photoId, {
+        included: false,
+        reason: `Target of ${target} photos reached; ranked #${rankOf.get(candidate.photoId)}`
+      });
+      continue;
+    }
+
+    const blocked = blockedBy(candidate);
+    if (blocked) {
+      reasons.set(candidate.photoId, { included: false, reason: blocked });
+      continue;
+    }
+
+    // Keep enough open slots for the photos with faces still needed
+    const withFaces = selected.filter(photo => photo.faceCount > 0).length;
+    const facesMissing = Math.max(0, facesNeeded - withFaces);
+    if (candidate.faceCount === 0 && target - selected.length <= facesMissing) {
+      heldBack.push(candidate);
+      reasons.set(candidate.photoId, {
+        included: false,
+        reason: `Slot kept for a photo with faces (at least ${percent(rules.minFaceShare ?? 0)})`
+      });
+      continue;
+    }
+
+    select(candidate, rankReason(candidate));
+  }
+
+  // Too few photos with faces qualified: fill up with the ones held back
+  for (const candidate of heldBack) {
+    if (selected.length >= target) break;
+    const blocked = blockedBy(candidate);
+    if (blocked) {
+      reasons.set(candidate.photoId, { included: false, reason: blocked });
+      continue;
+    }
+    select(candidate, `${rankReason(candidate)}; not enough photos with faces to fill the quota`);
+  }
+
+  const warnings: string[] = [];
+  if (selected.length < target) {
+    warnings.push(`Only ${selected.length} of ${target} photos meet the rules`);
+  }
+  const withFaces = selected.filter(photo => photo.faceCount > 0).length;
+  if (withFaces < facesNeeded) {
+    warnings.push(`Only ${withFaces} selected photos have faces, short of the ${facesNeeded} the quota asks for`);
+  }
+
+  const selectedIds = new Set(selected.map(photo => photo.photoId));
+  return {
+    selectedIds: candidates.map(candidate => candidate.photoId).filter(id => selectedIds.has(id)),
+    decisions: candidates.map(candidate => ({
+      photoId: candidate.photoId,
+      ...(reasons.get(candidate.photoId) as { included: boolean; reason: string })
+    })),
+    warnings
+  };
+}
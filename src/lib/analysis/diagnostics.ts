@@ -0,0 +1,23 @@
+import { findEdges, findInterestPoints } from "./aesthetics";
+import { computeClippingMask, computeLaplacian, computeSharpnessMap } from "./technical";
+import type { AnalysisDiagnostics, PixelBuffer } from "./types";
+
+/**
+ * Rebuild the analyzer's intermediate buffers (Laplacian sharpness, clipping,
+ * edge-based interest points) for one frame. These are too large to keep for
+ * every photo, so they are computed on demand for the detail view.
+ */
+export function computeDiagnostics(pixels: PixelBuffer): AnalysisDiagnostics {
+  const { width, height } = pixels;
+
+  const laplacian = computeLaplacian(pixels);
+  const edges = findEdges(pixels);
+
+  return {
+    width,
+    height,
+    sharpnessMap: computeSharpnessMap(laplacian, width, height),
+    clippingMask: computeClippingMask(pixels),
+    interestPoints: findInterestPoints(edges, width, height)
+  };
+}
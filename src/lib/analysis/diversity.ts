@@ -0,0 +1,133 @@
+import { extractDominantColors } from "./aesthetics";
+import type { PixelBuffer, RelativeBox } from "./types";
+
+// Colour signature layout: hue bins for saturated colours, then value bins
+// for greys, blacks and whites
+const HUE_BINS = 12;
+const NEUTRAL_BINS = 3;
+// Below this saturation or value a colour counts as neutral
+const NEUTRAL_THRESHOLD = 0.2;
+// Quantized colours sampled for the signature
+const SIGNATURE_COLORS = 16;
+
+// Photos this far apart in capture time no longer count as the same moment
+const MOMENT_MS = 30 * 60 * 1000;
+
+// How much each kind of similarity counts; missing features drop out
+const SIMILARITY_WEIGHTS = {
+  color: 0.45,
+  composition: 0.25,
+  time: 0.3
+};
+
+export interface DiversityCandidate {
+  photoId: string;
+  overallScore: number;
+  colorSignature?: number[];
+  // Region the photo is about (face or salient subject), if found
+  subjectBox?: RelativeBox;
+  faceCount: number;
+  // Capture time in epoch milliseconds, when known
+  capturedAt?: number;
+}
+
+/**
+ * Coarse colour histogram of a frame from its dominant colours: the share of
+ * sampled pixels per hue bin, then per neutral (dark, mid, light) bin
+ */
+export function computeColorSignature(pixels: PixelBuffer): number[] {
+  const signature = new Array<number>(HUE_BINS + NEUTRAL_BINS).fill(0);
+  const colors = extractDominantColors(pixels, SIGNATURE_COLORS);
+  const total = colors.reduce((sum, color) => sum + color.count, 0);
+  if (total === 0) return signature;
+
+  for (const color of colors) {
+    const bin = color.sat < NEUTRAL_THRESHOLD || color.val < NEUTRAL_THRESHOLD
+      ? HUE_BINS + Math.min(NEUTRAL_BINS - 1, Math.floor(color.val * NEUTRAL_BINS))
+      : Math.floor(color.hue / (360 / HUE_BINS)) % HUE_BINS;
+    signature[bin] += color.count / total;
+  }
+  return signature;
+}
+
+// Histogram intersection of two colour signatures (0-1)
+function colorSimilarity(a: number[], b: number[]): number {
+  let shared = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    shared += Math.min(a[i], b[i]);
+  }
+  return shared;
+}
+
+// Same kind of shot: subject in a similar place and size, similar face count
+function compositionSimilarity(a: DiversityCandidate, b: DiversityCandidate): number {
+  const faces = Math.min(a.faceCount, 3) === Math.min(b.faceCount, 3) ? 1 : 0;
+  if (!a.subjectBox || !b.subjectBox) return faces;
+
+  const center = (box: RelativeBox) => [box.x + box.width / 2, box.y + box.height / 2];
+  const [ax, ay] = center(a.subjectBox);
+  const [bx, by] = center(b.subjectBox);
+  const placement = 1 - Math.min(1, Math.hypot(ax - bx, ay - by) / Math.SQRT2);
+  const areaA = a.subjectBox.width * a.subjectBox.height;
+  const areaB = b.subjectBox.width * b.subjectBox.height;
+  const size = Math.max(areaA, areaB) > 0 ? Math.min(areaA, areaB) / Math.max(areaA, areaB) : 1;
+
+  return (placement + size + faces) / 3;
+}
+
+/**
+ * How alike two photos are (0-1) by colour, composition and capture time.
+ * Features one of the photos lacks are left out of the blend.
+ */
+export function photoSimilarity(a: DiversityCandidate, b: DiversityCandidate): number {
+  const parts: [number, number][] = [
+    [compositionSimilarity(a, b), SIMILARITY_WEIGHTS.composition]
+  ];
+  if (a.colorSignature && b.colorSignature) {
+    parts.push([colorSimilarity(a.colorSignature, b.colorSignature), SIMILARITY_WEIGHTS.color]);
+  }
+  if (a.capturedAt !== undefined && b.capturedAt !== undefined) {
+    parts.push([Math.exp(-Math.abs(a.capturedAt - b.capturedAt) / MOMENT_MS), SIMILARITY_WEIGHTS.time]);
+  }
+
+  const weight = parts.reduce((sum, [, w]) => sum + w, 0);
+  return parts.reduce((sum, [value, w]) => sum + value * w, 0) / weight;
+}
+
+/**
+ * Re-rank candidates by maximal marginal relevance: each position goes to
+ * the photo with the best trade-off between its own score and its
+ * similarity to the photos already placed above it. A diversity of 0 keeps
+ * the score order; 1 spreads out similar photos as much as possible.
+ * Candidates are expected ranked best first.
+ */
+export function diversifyRanking<T extends DiversityCandidate>(candidates: T[], diversity: number): T[] {
+  if (diversity <= 0 || candidates.length < 3) return candidates;
+
+  const remaining = [...candidates];
+  // Highest similarity of each remaining candidate to anything placed so far
+  const maxSimilarity = new Map(remaining.map(candidate => [candidate.photoId, 0]));
+  const ranked: T[] = [];
+
+  while (remaining.length > 0) {
+    let bestIndex = 0;
+    let bestValue = -Infinity;
+    remaining.forEach((candidate, index) => {
+      const value = (1 - diversity) * candidate.overallScore - diversity * maxSimilarity.get(candidate.photoId)!;
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = index;
+      }
+    });
+
+    const [placed] = remaining.splice(bestIndex, 1);
+    ranked.push(placed);
+    for (const candidate of remaining) {
+      const similarity = photoSimilarity(placed, candidate);
+      if (similarity > maxSimilarity.get(candidate.photoId)!) {
+        maxSimilarity.set(candidate.photoId, similarity);
+      }
+    }
+  }
+  return ranked;
+}
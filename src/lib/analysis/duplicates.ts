@@ -0,0 +1,155 @@
+import { toGrayscale } from "./pixels";
+import type { PixelBuffer } from "./types";
+
+export interface ClusterCandidate {
+  photoId: string;
+  perceptualHash: string;
+  overallScore: number;
+  // Capture time in epoch milliseconds, when known
+  capturedAt?: number;
+}
+
+export interface DuplicateCluster {
+  id: string;
+  // Members ordered by overall score (descending)
+  photoIds: string[];
+  // Best-scoring member, the default pick for the cluster
+  bestPhotoId: string;
+}
+
+export interface ClusterOptions {
+  // Hamming distance below which two frames are near-duplicates regardless of time
+  maxDistance: number;
+  // Looser distance accepted for frames captured within burstWindowMs of each other
+  burstDistance: number;
+  burstWindowMs: number;
+}
+
+export const DEFAULT_CLUSTER_OPTIONS: ClusterOptions = {
+  maxDistance: 8,
+  burstDistance: 18,
+  burstWindowMs: 3000
+};
+
+// dHash grid: 9x8 samples give 8x8 = 64 horizontal gradient bits
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+/**
+ * Difference hash (dHash) of a frame as a 16-character hex string. Each bit
+ * records whether a cell of a 9x8 box-averaged thumbnail is brighter than its
+ * right-hand neighbour, which survives resizing, recompression and small
+ * exposure changes.
+ */
+export function computePerceptualHash(pixels: PixelBuffer): string {
+  const gray = toGrayscale(pixels);
+  const cells = new Float64Array(HASH_WIDTH * HASH_HEIGHT);
+
+  // Box-average the grayscale image down to the hash grid
+  for (let cy = 0; cy < HASH_HEIGHT; cy++) {
+    const y0 = Math.floor((cy * pixels.height) / HASH_HEIGHT);
+    const y1 = Math.max(y0 + 1, Math.floor(((cy + 1) * pixels.height) / HASH_HEIGHT));
+    for (let cx = 0; cx < HASH_WIDTH; cx++) {
+      const x0 = Math.floor((cx * pixels.width) / HASH_WIDTH);
+      const x1 = Math.max(x0 + 1, Math.floor(((cx + 1) * pixels.width) / HASH_WIDTH));
+
+      let sum = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          sum += gray[y * pixels.width + x];
+        }
+      }
+      cells[cy * HASH_WIDTH + cx] = sum / ((y1 - y0) * (x1 - x0));
+    }
+  }
+
+  // Pack the gradient bits four at a time into hex digits
+  let hash = "";
+  let nibble = 0;
+  let bitCount = 0;
+  for (let cy = 0; cy < HASH_HEIGHT; cy++) {
+    for (let cx = 0; cx < HASH_WIDTH - 1; cx++) {
+      const left = cells[cy * HASH_WIDTH + cx];
+      const right = cells[cy * HASH_WIDTH + cx + 1];
+      nibble = (nibble << 1) | (left > right ? 1 : 0);
+      bitCount++;
+      if (bitCount === 4) {
+        hash += nibble.toString(16);
+        nibble = 0;
+        bitCount = 0;
+      }
+    }
+  }
+
+  return hash;
+}
+
+// Number of differing bits between two hex hashes of equal length
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance + Math.abs(a.length - b.length) * 4;
+}
+
+/**
+ * Group near-duplicate frames. Two photos are linked when their perceptual
+ * hashes are within maxDistance, or within burstDistance if they were also
+ * captured within burstWindowMs of each other; clusters are the connected
+ * components of those links. Every candidate ends up in exactly one cluster
+ * (singletons included), and clusters are ordered by their best score.
+ */
+export function clusterNearDuplicates(
+  candidates: ClusterCandidate[],
+  options: ClusterOptions = DEFAULT_CLUSTER_OPTIONS
+): DuplicateCluster[] {
+  // Union-find over candidate indices
+  const parent = candidates.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      const a = candidates[i];
+      const b = candidates[j];
+      const distance = hammingDistance(a.perceptualHash, b.perceptualHash);
+
+      const inBurst = a.capturedAt !== undefined && b.capturedAt !== undefined
+        && Math.abs(a.capturedAt - b.capturedAt) <= options.burstWindowMs;
+
+      if (distance <= options.maxDistance || (inBurst && distance <= options.burstDistance)) {
+        parent[find(i)] = find(j);
+      }
+    }
+  }
+
+  // Collect members per root
+  const groups = new Map<number, ClusterCandidate[]>();
+  candidates.forEach((candidate, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), candidate]);
+  });
+
+  return Array.from(groups.values())
+    .map(members => {
+      const ranked = [...members].sort((a, b) => b.overallScore - a.overallScore);
+      return {
+        id: `cluster-${ranked[0].photoId}`,
+        photoIds: ranked.map(member => member.photoId),
+        bestPhotoId: ranked[0].photoId,
+        bestScore: ranked[0].overallScore
+      };
+    })
+    .sort((a, b) => b.bestScore - a.bestScore)
+    .map(({ id, photoIds, bestPhotoId }) => ({ id, photoIds, bestPhotoId }));
+}
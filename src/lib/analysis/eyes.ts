@@ -0,0 +1,51 @@
+import type { EyeState } from "./types";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Eye aspect ratio below which an eye counts as closed (blink or shut)
+export const CLOSED_EAR_THRESHOLD = 0.2;
+
+// Typical EAR of a relaxed open eye; openness saturates here
+const OPEN_EAR = 0.3;
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Eye aspect ratio (Soukupová & Čech, 2016) for the six 68-point landmarks
+ * of one eye, ordered p1..p6 starting at the outer corner. Roughly constant
+ * while the eye is open and drops towards zero as it closes.
+ */
+export function eyeAspectRatio(eye: Point[]): number {
+  if (eye.length !== 6) {
+    throw new Error(`Expected 6 eye landmarks, got ${eye.length}`);
+  }
+
+  const [p1, p2, p3, p4, p5, p6] = eye;
+  const width = distance(p1, p4);
+  if (width === 0) {
+    return 0;
+  }
+
+  return (distance(p2, p6) + distance(p3, p5)) / (2 * width);
+}
+
+// Classify a face's eyes from its left and right eye landmarks
+export function detectEyeState(leftEye: Point[], rightEye: Point[]): EyeState {
+  const leftEAR = eyeAspectRatio(leftEye);
+  const rightEAR = eyeAspectRatio(rightEye);
+  const averageEAR = (leftEAR + rightEAR) / 2;
+
+  const openness = Math.min(1, Math.max(0,
+    (averageEAR - CLOSED_EAR_THRESHOLD) / (OPEN_EAR - CLOSED_EAR_THRESHOLD)
+  ));
+
+  return {
+    leftEAR,
+    rightEAR,
+    openness,
+    closed: averageEAR < CLOSED_EAR_THRESHOLD
+  };
+}
@@ -0,0 +1,107 @@
+import * as faceapi from "face-api.js";
+import { detectEyeState } from "./eyes";
+import { estimateFrontality, scoreGroup } from "./group";
+import { bestExpressionScore } from "./scoring";
+import type { FaceExpressionResult } from "./types";
+
+// Directory the face-api.js weights are served from (see public/models)
+export const FACE_MODELS_URL = "/models/face-api";
+
+function emptyResult(): FaceExpressionResult {
+  return {
+    faceCount: 0,
+    expressions: [],
+    faces: [],
+    closedEyesCount: 0,
+    bestExpressionScore: 0,
+    groupScore: 0,
+    eyesOpenFraction: 0,
+    facingCameraFraction: 0
+  };
+}
+
+// Load the face-api.js networks used by analyzeFaceExpressions
+export async function loadFaceModels(modelsUrl = FACE_MODELS_URL): Promise<void> {
+  await faceapi.nets.ssdMobilenetv1.loadFromUri(modelsUrl);
+  await faceapi.nets.faceLandmark68Net.loadFromUri(modelsUrl);
+  await faceapi.nets.faceExpressionNet.loadFromUri(modelsUrl);
+}
+
+/**
+ * Detect faces, score their expressions and use the 68-point landmarks to
+ * check each face's eyes and head pose before scoring the group as a whole.
+ * Unlike the pixel metrics this
+ * needs a face-api.js input (image, canvas or tensor) rather than a raw buffer.
+ */
+export async function analyzeFaceExpressions(input: faceapi.TNetInput): Promise<FaceExpressionResult> {
+  try {
+    // Detect faces and expressions
+    const detections = await faceapi.detectAllFaces(input)
+      .withFaceLandmarks()
+      .withFaceExpressions();
+
+    if (detections.length === 0) {
+      return emptyResult();
+    }
+
+    // Extract expressions for each face
+    const expressions = detections.map(({ expressions: expr }) => ({
+      happy: expr.happy,
+      sad: expr.sad,
+      angry: expr.angry,
+      fearful: expr.fearful,
+      disgusted: expr.disgusted,
+      surprised: expr.surprised,
+      neutral: expr.neutral
+    }));
+
+    // Eye aspect ratio and head pose from the landmarks, box from the detection
+    const measurements = detections.map(({ detection, landmarks }, i) => {
+      const box = detection.relativeBox;
+      return {
+        box: { x: box.x, y: box.y, width: box.width, height: box.height },
+        expression: expressions[i],
+        eyes: detectEyeState(landmarks.getLeftEye(), landmarks.getRightEye()),
+        frontality: estimateFrontality(landmarks.getJawOutline(), landmarks.getNose())
+      };
+    });
+    const group = scoreGroup(measurements);
+
+    return {
+      faceCount: detections.length,
+      expressions,
+      faces: group.faces,
+      closedEyesCount: group.faces.filter(face => face.eyes.closed).length,
+      bestExpressionScore: bestExpressionScore(expressions),
+      groupScore: group.groupScore,
+      eyesOpenFraction: group.eyesOpenFraction,
+      facingCameraFraction: group.facingCameraFraction
+    };
+  } catch (error) {
+    console.error("Error analyzing face expressions:", error);
+    return emptyResult();
+  }
+}
+
+/**
+ * face-api.js only knows how to set itself up in a window or in Node. Inside a
+ * dedicated worker we point it at OffscreenCanvas instead; call this once
+ * before loading models there.
+ */
+export function setupWorkerFaceEnv(): void {
+  const unavailable = (name: string) => () => {
+    throw new Error(`${name} - not available in a worker environment`);
+  };
+
+  faceapi.env.setEnv({
+    Canvas: OffscreenCanvas as unknown as typeof HTMLCanvasElement,
+    CanvasRenderingContext2D: OffscreenCanvasRenderingContext2D as unknown as typeof CanvasRenderingContext2D,
+    Image: ImageBitmap as unknown as typeof HTMLImageElement,
+    ImageData,
+    Video: class {} as unknown as typeof HTMLVideoElement,
+    createCanvasElement: () => new OffscreenCanvas(1, 1) as unknown as HTMLCanvasElement,
+    createImageElement: unavailable("createImageElement"),
+    fetch: (url, init) => fetch(url, init),
+    readFile: unavailable("readFile")
+  });
+}
@@ -0,0 +1,178 @@
+import { formatExposureTime } from "./capture";
+import type { AnalysisResult, Finding, SubjectRegion } from "./types";
+
+// Order in which findings are listed within the same impact
+const IMPACT_ORDER: Record<Finding["impact"], number> = {
+  negative: 0,
+  positive: 1,
+  neutral: 2
+};
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+// Largest subject region, which is what a viewer looks at first
+function mainRegion(regions: SubjectRegion[]): SubjectRegion | undefined {
+  return regions.reduce<SubjectRegion | undefined>(
+    (best, region) =>
+      !best || region.box.width * region.box.height > best.box.width * best.box.height ? region : best,
+    undefined
+  );
+}
+
+// Describe where the subject's centre sits horizontally
+function describePosition(center: number): string | null {
+  if (center < 0.15) return "near the left edge";
+  if (center > 0.85) return "near the right edge";
+  if (Math.abs(center - 1 / 3) < 0.08) return "near the left third";
+  if (Math.abs(center - 2 / 3) < 0.08) return "near the right third";
+  if (Math.abs(center - 0.5) < 0.08) return "centred";
+  return null;
+}
+
+/**
+ * Explain a result in plain language. Findings are derived only from the
+ * stored metrics, so they can be rebuilt at any time without the pixels.
+ * Problems come first, then strengths, then neutral observations.
+ */
+export function explainResult(result: Omit<AnalysisResult, "findings">): Finding[] {
+  const { technicalQuality: tq, aesthetics, faceExpressions: faces } = result;
+  const findings: Finding[] = [];
+
+  // Sharpness of the main subject, and whether focus landed elsewhere
+  const main = mainRegion(tq.subjectRegions);
+  const subjectName = main?.source === "face"
+    ? (faces.faceCount > 1 ? "main face" : "face")
+    : "subject";
+  if (main) {
+    if (main.blurScore < 0.15) {
+      findings.push({ category: "sharpness", impact: "negative", message: `${subjectName} is blurred` });
+    } else if (main.blurScore < 0.35) {
+      findings.push({ category: "sharpness", impact: "negative", message: `${subjectName} slightly blurred` });
+    } else if (main.blurScore >= 0.6) {
+      findings.push({ category: "sharpness", impact: "positive", message: `${subjectName} is sharp` });
+    }
+  } else if (tq.frameBlurScore < 0.15) {
+    findings.push({ category: "sharpness", impact: "negative", message: "whole frame is blurred" });
+  }
+  if (tq.frameBlurScore - tq.subjectBlurScore > 0.25) {
+    findings.push({
+      category: "sharpness",
+      impact: "negative",
+      message: `background is sharper than the ${subjectName} (focus missed)`
+    });
+  }
+  const capture = tq.capture;
+  if (capture?.exposureTime && capture.motionBlurRisk !== null && capture.motionBlurRisk >= 0.6 && tq.blurScore < 0.35) {
+    findings.push({
+      category: "sharpness",
+      impact: "negative",
+      message: `slow shutter (${formatExposureTime(capture.exposureTime)}) for the focal length: likely camera shake`
+    });
+  }
+
+  // Clipping and overall exposure
+  if (tq.highlightClipping > 0.02) {
+    findings.push({
+      category: "exposure",
+      impact: "negative",
+      message: `highlights clipped in ${percent(tq.highlightClipping)} of pixels`
+    });
+  }
+  if (tq.shadowClipping > 0.05) {
+    findings.push({
+      category: "exposure",
+      impact: "negative",
+      message: `shadows crushed in ${percent(tq.shadowClipping)} of pixels`
+    });
+  }
+  if (tq.exposureScore < 0.4) {
+    findings.push({ category: "exposure", impact: "negative", message: "poorly exposed or flat" });
+  } else if (tq.exposureScore >= 0.75) {
+    findings.push({ category: "exposure", impact: "positive", message: "well exposed" });
+  }
+
+  // Noise
+  if (tq.noiseScore < 0.3) {
+    findings.push({ category: "noise", impact: "negative", message: "heavy noise" });
+  } else if (tq.noiseScore < 0.5) {
+    findings.push({ category: "noise", impact: "negative", message: "visible noise" });
+  }
+  if (capture?.iso && capture.expectedNoise !== null && capture.expectedNoise >= 0.67) {
+    findings.push({ category: "noise", impact: "neutral", message: `shot at ISO ${capture.iso}: some noise is expected` });
+  }
+
+  // Faces: eyes, gaze and expression
+  if (faces.faceCount > 0) {
+    if (faces.closedEyesCount === faces.faceCount) {
+      findings.push({
+        category: "faces",
+        impact: "negative",
+        message: faces.faceCount === 1 ? "eyes closed" : "everyone has their eyes closed"
+      });
+    } else if (faces.closedEyesCount > 0) {
+      findings.push({
+        category: "faces",
+        impact: "negative",
+        message: `${faces.closedEyesCount} of ${faces.faceCount} people have their eyes closed`
+      });
+    } else if (faces.faceCount > 1) {
+      findings.push({ category: "faces", impact: "positive", message: "everyone's eyes are open" });
+    }
+
+    const lookingAway = faces.faces.filter(face => !face.facingCamera).length;
+    if (lookingAway > 0) {
+      findings.push({
+        category: "faces",
+        impact: "negative",
+        message: faces.faceCount === 1
+          ? "looking away from the camera"
+          : `${lookingAway} of ${faces.faceCount} people looking away`
+      });
+    }
+
+    const smiling = faces.expressions.filter(expression => expression.happy > 0.6).length;
+    if (smiling > 0) {
+      findings.push({
+        category: "faces",
+        impact: "positive",
+        message: faces.faceCount === 1 ? "smiling" : `${smiling} of ${faces.faceCount} people smiling`
+      });
+    }
+  }
+
+  // Composition: where the subject sits in the frame
+  if (main) {
+    const position = describePosition(main.box.x + main.box.width / 2);
+    if (position) {
+      findings.push({
+        category: "composition",
+        impact: position.includes("edge") ? "negative" : "neutral",
+        message: `${subjectName} ${position}`
+      });
+    }
+  }
+
+  // Aesthetics
+  if (aesthetics.meanScore >= 6.5) {
+    findings.push({ category: "aesthetics", impact: "positive", message: "strong aesthetic appeal" });
+  } else if (aesthetics.meanScore < 4) {
+    findings.push({ category: "aesthetics", impact: "negative", message: "weak aesthetic appeal" });
+  }
+  if (aesthetics.stdDev > 2) {
+    findings.push({ category: "aesthetics", impact: "neutral", message: "divisive: opinions would vary" });
+  }
+  if (aesthetics.source === "heuristic") {
+    findings.push({
+      category: "aesthetics",
+      impact: "neutral",
+      message: "aesthetics estimated heuristically (model unavailable)"
+    });
+  }
+
+  // Stable sort keeps the category order within each impact
+  return findings
+    .map(finding => ({ ...finding, message: finding.message.charAt(0).toUpperCase() + finding.message.slice(1) }))
+    .sort((a, b) => IMPACT_ORDER[a.impact] - IMPACT_ORDER[b.impact]);
+}
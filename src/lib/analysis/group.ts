@@ -0,0 +1,134 @@
+import type { Point } from "./eyes";
+import { DEFAULT_SCORING_WEIGHTS, scoreExpression, weightedAverage } from "./scoring";
+import type {
+  ExpressionProbabilities,
+  EyeState,
+  FaceDetail,
+  RelativeBox,
+  ScoringWeights,
+} from "./types";
+
+// Raw per-face measurements taken from a detection
+export interface FaceMeasurement {
+  box: RelativeBox;
+  expression: ExpressionProbabilities;
+  eyes: EyeState;
+  frontality: number;
+}
+
+export interface GroupFaceScore {
+  faces: FaceDetail[];
+  groupScore: number;
+  eyesOpenFraction: number;
+  facingCameraFraction: number;
+}
+
+// Faces smaller than this fraction of the largest face are treated as
+// bystanders: they still count towards the mean but not the minimum
+const SIGNIFICANT_FACE_RATIO = 0.2;
+
+// Frontality above which a face counts as facing the camera
+const FACING_CAMERA_THRESHOLD = 0.6;
+
+/**
+ * Estimate how directly a face looks at the camera from its jaw outline and
+ * nose landmarks: a frontal face has the nose tip roughly equidistant from
+ * both ends of the jaw, a turned head does not. Returns 0 (profile) to 1.
+ */
+export function estimateFrontality(jawOutline: Point[], nose: Point[]): number {
+  const left = jawOutline[0];
+  const right = jawOutline[jawOutline.length - 1];
+  // Point 30 of the 68-point model, the fourth of the nose landmarks
+  const tip = nose[3];
+  if (!left || !right || !tip) {
+    return 0;
+  }
+
+  const toLeft = Math.abs(tip.x - left.x);
+  const toRight = Math.abs(right.x - tip.x);
+  const longer = Math.max(toLeft, toRight);
+  if (longer === 0) {
+    return 0;
+  }
+
+  // Ratio of 1 is perfectly frontal; ~0.3 or below is a three-quarter view or more
+  return Math.min(1, Math.max(0, (Math.min(toLeft, toRight) / longer - 0.3) / 0.6));
+}
+
+// Per-face quality from its expression, eye openness and frontality
+function faceQuality(
+  face: Pick<FaceDetail, "expressionScore" | "eyes" | "frontality">,
+  weights: ScoringWeights
+): number {
+  return weightedAverage([
+    [face.expressionScore, weights.expression],
+    [face.eyes.openness, weights.eyesOpen],
+    [face.frontality, weights.facingCamera]
+  ]);
+}
+
+/**
+ * Score everyone in the frame, not just the best face. Each face gets a
+ * quality from its expression, eye openness and frontality; the group score
+ * blends the size-weighted mean, the weakest significant face and the share
+ * of faces with open eyes looking at the camera.
+ */
+export function scoreGroup(
+  measurements: FaceMeasurement[],
+  weights: ScoringWeights = DEFAULT_SCORING_WEIGHTS
+): GroupFaceScore {
+  if (measurements.length === 0) {
+    return { faces: [], groupScore: 0, eyesOpenFraction: 0, facingCameraFraction: 0 };
+  }
+
+  const largestArea = Math.max(...measurements.map(m => m.box.width * m.box.height));
+
+  const faces: FaceDetail[] = measurements.map(m => {
+    const areaFraction = m.box.width * m.box.height;
+    const expressionScore = Math.min(1, Math.max(0, scoreExpression(m.expression)));
+
+    return {
+      box: m.box,
+      areaFraction,
+      // Square root so a face twice as wide does not count four times as much
+      weight: largestArea > 0 ? Math.sqrt(areaFraction / largestArea) : 1,
+      expressionScore,
+      eyes: m.eyes,
+      frontality: m.frontality,
+      facingCamera: m.frontality >= FACING_CAMERA_THRESHOLD,
+      quality: faceQuality({ expressionScore, eyes: m.eyes, frontality: m.frontality }, weights)
+    };
+  });
+
+  return summarizeGroup(faces);
+}
+
+// Recompute face qualities and the group score from stored details, e.g.
+// after the scoring weights change
+export function rescoreGroup(faces: FaceDetail[], weights: ScoringWeights): GroupFaceScore {
+  if (faces.length === 0) {
+    return { faces: [], groupScore: 0, eyesOpenFraction: 0, facingCameraFraction: 0 };
+  }
+  return summarizeGroup(faces.map(face => ({ ...face, quality: faceQuality(face, weights) })));
+}
+
+function summarizeGroup(faces: FaceDetail[]): GroupFaceScore {
+  const largestArea = Math.max(...faces.map(face => face.areaFraction));
+
+  const totalWeight = faces.reduce((sum, face) => sum + face.weight, 0);
+  const weightedMean = faces.reduce((sum, face) => sum + face.quality * face.weight, 0) / totalWeight;
+
+  const significant = faces.filter(face => face.areaFraction >= largestArea * SIGNIFICANT_FACE_RATIO);
+  const minimum = Math.min(...significant.map(face => face.quality));
+
+  const eyesOpenFraction = faces.filter(face => !face.eyes.closed).length / faces.length;
+  const facingCameraFraction = faces.filter(face => face.facingCamera).length / faces.length;
+  const lookingGoodFraction = faces.filter(face => !face.eyes.closed && face.facingCamera).length / faces.length;
+
+  return {
+    faces,
+    groupScore: weightedMean * 0.5 + minimum * 0.3 + lookingGoodFraction * 0.2,
+    eyesOpenFraction,
+    facingCameraFraction
+  };
+}
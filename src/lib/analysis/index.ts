@@ -0,0 +1,38 @@
+import { analyzeAesthetics } from "./aesthetics";
+import { analyzeTechnicalQuality } from "./technical";
+import type { AestheticResult, PixelBuffer, TechnicalQualityResult } from "./types";
+
+// Framework-free photo scoring pipeline. Everything exported here works on
+// raw RGBA buffers, so it runs the same in the browser, a worker or a test.
+// Model-backed steps ("./faces", "./nima") and the worker pool are imported
+// from their own modules so this entry point stays free of ML dependencies.
+
+export * from "./types";
+export * from "./version";
+export * from "./pixels";
+export * from "./technical";
+export * from "./capture";
+export * from "./aesthetics";
+export * from "./scoring";
+export * from "./duplicates";
+export * from "./curation";
+export * from "./diversity";
+export * from "./eyes";
+export * from "./group";
+export * from "./subject";
+export * from "./profiles";
+export * from "./findings";
+export * from "./diagnostics";
+
+/**
+ * Run every pixel-based metric over a single frame
+ */
+export function analyzePixels(pixels: PixelBuffer): {
+  technicalQuality: TechnicalQualityResult;
+  aesthetics: AestheticResult;
+} {
+  return {
+    technicalQuality: analyzeTechnicalQuality(pixels),
+    aesthetics: analyzeAesthetics(pixels)
+  };
+}
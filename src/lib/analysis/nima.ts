@@ -0,0 +1,80 @@
+import * as tf from "@tensorflow/tfjs";
+import { analyzeAesthetics, distributionStats } from "./aesthetics";
+import type { AestheticResult, PixelBuffer } from "./types";
+
+// NIMA graph model (MobileNet backbone, 10-bucket softmax head), served like
+// the face-api.js weights from public/models
+export const NIMA_MODEL_URL = "/models/nima/model.json";
+
+// MobileNet input resolution
+const NIMA_INPUT_SIZE = 224;
+
+let modelPromise: Promise<tf.GraphModel | null> | null = null;
+
+/**
+ * Load the NIMA model once per thread. Resolves to null (and logs a warning)
+ * when the model cannot be loaded, so callers fall back to the heuristic.
+ */
+export function loadAestheticModel(modelUrl = NIMA_MODEL_URL): Promise<tf.GraphModel | null> {
+  if (!modelPromise) {
+    modelPromise = tf.ready()
+      .then(() => tf.loadGraphModel(modelUrl))
+      .catch((error) => {
+        console.warn("NIMA model unavailable, using heuristic aesthetics:", error);
+        return null;
+      });
+  }
+  return modelPromise;
+}
+
+// Predict the 10-bucket score distribution for one frame
+export function predictScoreDistribution(model: tf.GraphModel, pixels: PixelBuffer): number[] {
+  const probabilities = tf.tidy(() => {
+    // RGBA buffer -> RGB float tensor
+    const bytes = new Uint8Array(pixels.data.buffer, pixels.data.byteOffset, pixels.data.length);
+    const rgba = tf.tensor3d(bytes, [pixels.height, pixels.width, 4], "int32");
+    const rgb = rgba.slice([0, 0, 0], [-1, -1, 3]).toFloat();
+
+    // Resize and apply MobileNet preprocessing (scale to [-1, 1])
+    const input = tf.image
+      .resizeBilinear(rgb as tf.Tensor3D, [NIMA_INPUT_SIZE, NIMA_INPUT_SIZE])
+      .div(127.5)
+      .sub(1)
+      .expandDims(0);
+
+    return (model.predict(input) as tf.Tensor).reshape([10]);
+  });
+
+  const distribution = Array.from(probabilities.dataSync());
+  probabilities.dispose();
+
+  // Guard against exported heads that do not renormalize exactly
+  const sum = distribution.reduce((total, p) => total + p, 0);
+  return sum > 0 ? distribution.map(p => p / sum) : distribution;
+}
+
+/**
+ * Aesthetic evaluation with the NIMA model, falling back to the heuristic
+ * analyzeAesthetics when the model failed to load or inference throws.
+ */
+export async function scoreAesthetics(pixels: PixelBuffer): Promise<AestheticResult> {
+  const model = await loadAestheticModel();
+  if (!model) {
+    return analyzeAesthetics(pixels);
+  }
+
+  try {
+    const scoreDistribution = predictScoreDistribution(model, pixels);
+    const { meanScore, stdDev } = distributionStats(scoreDistribution);
+
+    return {
+      meanScore,
+      stdDev,
+      scoreDistribution,
+      source: "nima"
+    };
+  } catch (error) {
+    console.error("Error running NIMA model:", error);
+    return analyzeAesthetics(pixels);
+  }
+}
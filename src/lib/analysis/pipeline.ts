@@ -0,0 +1,94 @@
+import type * as faceapi from "face-api.js";
+import { computeColorSignature } from "./diversity";
+import { computePerceptualHash } from "./duplicates";
+import { analyzeFaceExpressions } from "./faces";
+import { explainResult } from "./findings";
+import { scoreAesthetics } from "./nima";
+import { calculateOverallScore } from "./scoring";
+import { analyzeTechnicalQuality } from "./technical";
+import type { AnalysisResult, CaptureSettings } from "./types";
+
+export type AnalysisCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+export type AnalysisImage = ImageBitmap | HTMLImageElement;
+
+// Longest edge requested from Google Photos for analysis
+export const ANALYSIS_SIZE = 1024;
+
+// Load an image element for main-thread analysis (CORS-enabled so its
+// pixels can be read back from a canvas)
+export function loadImage(url: string): Promise<HTMLImageElement> {
+  const img = new Image();
+  img.crossOrigin = "anonymous";
+  return new Promise((resolve, reject) => {
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image"));
+    img.src = url;
+  });
+}
+
+// Colour signature of an already analyzed photo, from a small rendition
+export async function loadColorSignature(url: string): Promise<number[]> {
+  const image = await loadImage(url);
+  return computeColorSignature(readPixels(document.createElement("canvas"), image));
+}
+
+// Draw the image onto a working canvas and read back its RGBA pixels
+export function readPixels(canvas: AnalysisCanvas, image: AnalysisImage): ImageData {
+  const ctx = canvas.getContext("2d") as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!ctx) {
+    throw new Error("2D canvas context is not available");
+  }
+
+  // Resize canvas to fit the image, scaling down anything larger than the
+  // analysis size (local files arrive at full camera resolution)
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(image.width, image.height));
+  canvas.width = Math.round(image.width * scale);
+  canvas.height = Math.round(image.height * scale);
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+/**
+ * Run the full pipeline (pixel metrics, NIMA aesthetics, faces, overall score)
+ * for one photo. Works with both a DOM canvas on the main thread and an
+ * OffscreenCanvas in a worker; face detection reads from the same canvas the
+ * pixels came from. Camera settings, when known, inform the technical score.
+ */
+export async function analyzeImage(
+  photoId: string,
+  image: AnalysisImage,
+  canvas: AnalysisCanvas,
+  settings?: CaptureSettings
+): Promise<AnalysisResult> {
+  const pixels = readPixels(canvas, image);
+
+  // Analyze face expressions
+  const faceExpressions = await analyzeFaceExpressions(canvas as unknown as faceapi.TNetInput);
+
+  // Analyze technical quality, measuring sharpness inside the face boxes
+  const technicalQuality = analyzeTechnicalQuality(pixels, faceExpressions.faces.map(face => face.box), settings);
+
+  // Analyze aesthetics (NIMA model, heuristic fallback)
+  const aesthetics = await scoreAesthetics(pixels);
+
+  // Calculate overall score
+  const overallScore = calculateOverallScore(
+    technicalQuality,
+    aesthetics,
+    faceExpressions
+  );
+
+  const result = {
+    photoId,
+    technicalQuality,
+    aesthetics,
+    faceExpressions,
+    overallScore,
+    perceptualHash: computePerceptualHash(pixels),
+    colorSignature: computeColorSignature(pixels)
+  };
+
+  return { ...result, findings: explainResult(result) };
+}
@@ -0,0 +1,56 @@
+import type { PixelBuffer } from "./types";
+
+// Perceived luminance of an RGB triple (ITU-R BT.601 weights)
+export function luminance(r: number, g: number, b: number): number {
+  return Math.round(0.299 * r + 0.587 * g + 0.114 * b);
+}
+
+// Convert an RGBA buffer to a single grayscale channel
+export function toGrayscale(pixels: PixelBuffer): Uint8Array {
+  const gray = new Uint8Array(pixels.width * pixels.height);
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    gray[i / 4] = luminance(pixels.data[i], pixels.data[i + 1], pixels.data[i + 2]);
+  }
+  return gray;
+}
+
+// Build a 256-bin luminance histogram
+export function grayHistogram(pixels: PixelBuffer): number[] {
+  const histogram = new Array(256).fill(0);
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    histogram[luminance(pixels.data[i], pixels.data[i + 1], pixels.data[i + 2])]++;
+  }
+  return histogram;
+}
+
+// Convert RGB to HSV
+export function rgbToHsv(r: number, g: number, b: number) {
+  r /= 255;
+  g /= 255;
+  b /= 255;
+
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const diff = max - min;
+
+  let h = 0;
+
+  if (diff === 0) {
+    h = 0;
+  } else if (max === r) {
+    h = 60 * ((g - b) / diff % 6);
+  } else if (max === g) {
+    h = 60 * ((b - r) / diff + 2);
+  } else {
+    h = 60 * ((r - g) / diff + 4);
+  }
+
+  if (h < 0) {
+    h += 360;
+  }
+
+  const s = max === 0 ? 0 : diff / max;
+  const v = max;
+
+  return { h, s, v };
+}
@@ -0,0 +1,123 @@
+import { adjustBlurForCapture } from "./capture";
+import { rescoreGroup } from "./group";
+import {
+  calculateOverallScore,
+  combineBlur,
+  combineTechnical,
+  DEFAULT_SCORING_WEIGHTS,
+} from "./scoring";
+import type { AnalysisResult, ScoringWeights } from "./types";
+
+export interface ScoringProfile {
+  id: string;
+  name: string;
+  weights: ScoringWeights;
+  // Built-in profiles can be edited and reset, but not deleted
+  builtIn: boolean;
+}
+
+export const DEFAULT_PROFILE_ID = "balanced";
+
+export const BUILT_IN_PROFILES: ScoringProfile[] = [
+  {
+    id: DEFAULT_PROFILE_ID,
+    name: "Balanced",
+    builtIn: true,
+    weights: DEFAULT_SCORING_WEIGHTS
+  },
+  {
+    id: "portraits",
+    name: "Portraits",
+    builtIn: true,
+    weights: {
+      ...DEFAULT_SCORING_WEIGHTS,
+      technical: 0.3,
+      aesthetic: 0.3,
+      faces: 0.4,
+      subjectSharpness: 0.9,
+      closedEyesPenalty: 0.3,
+      // A portrait without a face is not much of a portrait
+      noFaceScore: 0
+    }
+  },
+  {
+    id: "landscapes",
+    name: "Landscapes",
+    builtIn: true,
+    weights: {
+      ...DEFAULT_SCORING_WEIGHTS,
+      technical: 0.4,
+      aesthetic: 0.6,
+      faces: 0,
+      blur: 0.3,
+      noise: 0.3,
+      exposure: 0.4,
+      subjectSharpness: 0.4,
+      closedEyesPenalty: 0
+    }
+  },
+  {
+    id: "documentary",
+    name: "Documentary",
+    builtIn: true,
+    weights: {
+      ...DEFAULT_SCORING_WEIGHTS,
+      technical: 0.5,
+      aesthetic: 0.3,
+      faces: 0.2,
+      expression: 0.2,
+      eyesOpen: 0.4,
+      facingCamera: 0.4,
+      closedEyesPenalty: 0.1
+    }
+  },
+  {
+    id: "kids",
+    name: "Kids",
+    builtIn: true,
+    weights: {
+      ...DEFAULT_SCORING_WEIGHTS,
+      technical: 0.3,
+      aesthetic: 0.2,
+      faces: 0.5,
+      // Kids move: forgive a softer background, insist on a sharp face
+      subjectSharpness: 0.9,
+      expression: 0.6,
+      eyesOpen: 0.3,
+      facingCamera: 0.1,
+      closedEyesPenalty: 0.2
+    }
+  }
+];
+
+/**
+ * Recompute every derived score of a result under new weights. Only stored
+ * sub-metrics are used, so re-ranking is instant and never touches pixels.
+ */
+export function rescoreResult(result: AnalysisResult, weights: ScoringWeights): AnalysisResult {
+  const { technicalQuality: tq, faceExpressions: faces } = result;
+
+  const blurScore = adjustBlurForCapture(combineBlur(tq.subjectBlurScore, tq.frameBlurScore, weights), tq.capture);
+  const technicalQuality = {
+    ...tq,
+    blurScore,
+    overallScore: combineTechnical({ blurScore, noiseScore: tq.noiseScore, exposureScore: tq.exposureScore }, weights)
+  };
+
+  const group = rescoreGroup(faces.faces, weights);
+  const faceExpressions = { ...faces, ...group };
+
+  return {
+    ...result,
+    technicalQuality,
+    faceExpressions,
+    overallScore: calculateOverallScore(technicalQuality, result.aesthetics, faceExpressions, weights)
+  };
+}
+
+// Rescore and sort results by overall score (descending)
+export function rankResults(results: AnalysisResult[], weights: ScoringWeights): AnalysisResult[] {
+  return results
+    .map(result => rescoreResult(result, weights))
+    .sort((a, b) => b.overallScore - a.overallScore);
+}
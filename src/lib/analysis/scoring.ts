@@ -0,0 +1,111 @@
+import type {
+  AestheticResult,
+  ExpressionProbabilities,
+  FaceExpressionResult,
+  ScoringWeights,
+  TechnicalQualityResult,
+} from "./types";
+
+// Score a single face's expression (prioritize happy expressions)
+export function scoreExpression(expression: ExpressionProbabilities): number {
+  // Happy expressions get highest weight
+  const happyScore = expression.happy * 1.0;
+
+  // Neutral expressions get medium weight
+  const neutralScore = expression.neutral * 0.7;
+
+  // Surprised expressions get lower weight
+  const surprisedScore = expression.surprised * 0.5;
+
+  // Negative expressions get lowest weight
+  const negativeScore = (expression.sad + expression.angry + expression.fearful + expression.disgusted) * 0.1;
+
+  return happyScore + neutralScore + surprisedScore - negativeScore;
+}
+
+// Best expression score across all faces, normalized to 0-1 range
+export function bestExpressionScore(expressions: ExpressionProbabilities[]): number {
+  let best = 0;
+  for (const expression of expressions) {
+    best = Math.max(best, scoreExpression(expression));
+  }
+  return Math.min(1, Math.max(0, best));
+}
+
+// Default weights, used when no scoring profile is chosen
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  technical: 0.4,
+  aesthetic: 0.4,
+  faces: 0.2,
+  blur: 0.4,
+  noise: 0.3,
+  exposure: 0.3,
+  subjectSharpness: 0.75,
+  expression: 0.5,
+  eyesOpen: 0.3,
+  facingCamera: 0.2,
+  closedEyesPenalty: 0.15,
+  noFaceScore: null
+};
+
+// Weighted mean of [score, weight] pairs, 0 when all weights are 0
+export function weightedAverage(parts: [number, number][]): number {
+  const totalWeight = parts.reduce((sum, [, weight]) => sum + weight, 0);
+  if (totalWeight <= 0) {
+    return 0;
+  }
+  return parts.reduce((sum, [score, weight]) => sum + score * weight, 0) / totalWeight;
+}
+
+// Blend subject and whole-frame sharpness into the blur score
+export function combineBlur(
+  subjectBlurScore: number,
+  frameBlurScore: number,
+  weights: ScoringWeights = DEFAULT_SCORING_WEIGHTS
+): number {
+  const subjectShare = Math.min(1, Math.max(0, weights.subjectSharpness));
+  return subjectBlurScore * subjectShare + frameBlurScore * (1 - subjectShare);
+}
+
+// Combine blur, noise and exposure into the technical quality score
+export function combineTechnical(
+  scores: { blurScore: number; noiseScore: number; exposureScore: number },
+  weights: ScoringWeights = DEFAULT_SCORING_WEIGHTS
+): number {
+  return weightedAverage([
+    [scores.blurScore, weights.blur],
+    [scores.noiseScore, weights.noise],
+    [scores.exposureScore, weights.exposure]
+  ]);
+}
+
+/**
+ * Calculate overall score combining all factors. Photos without faces either
+ * leave the face factor out (noFaceScore null) or use noFaceScore in its place,
+ * so profiles decide explicitly how face-less photos compete.
+ */
+export function calculateOverallScore(
+  technicalQuality: TechnicalQualityResult,
+  aesthetics: AestheticResult,
+  faceExpressions: FaceExpressionResult,
+  weights: ScoringWeights = DEFAULT_SCORING_WEIGHTS
+): number {
+  const parts: [number, number][] = [
+    [technicalQuality.overallScore, weights.technical],
+    [aesthetics.meanScore / 10, weights.aesthetic]
+  ];
+
+  if (faceExpressions.faceCount === 0) {
+    if (weights.noFaceScore !== null) {
+      parts.push([weights.noFaceScore, weights.faces]);
+    }
+    return weightedAverage(parts);
+  }
+
+  // Faces, scored across the whole group rather than the best face
+  parts.push([faceExpressions.groupScore, weights.faces]);
+
+  // Closed eyes are the most common reason to reject a shot with people in it
+  const closedFraction = faceExpressions.closedEyesCount / faceExpressions.faceCount;
+  return Math.max(0, weightedAverage(parts) - weights.closedEyesPenalty * closedFraction);
+}
@@ -0,0 +1,87 @@
+import type { PixelBuffer, RelativeBox } from "./types";
+
+// Saliency grid resolution and the size of the subject window in cells
+const GRID_SIZE = 8;
+const WINDOW_CELLS = 3;
+
+/**
+ * Locate the most salient region of a frame for when no faces are detected.
+ * Each cell of an 8x8 grid is scored by how far its mean colour sits from the
+ * frame's mean colour (subjects tend to stand out from their surroundings),
+ * weighted towards the centre; the best 3x3-cell window is the subject.
+ * Colour contrast is used rather than edges so a blurred subject in front of
+ * a sharp background is still found.
+ */
+export function findSubjectRegion(pixels: PixelBuffer): RelativeBox {
+  const { width, height, data } = pixels;
+  const cellSums = new Float64Array(GRID_SIZE * GRID_SIZE * 3);
+  const cellCounts = new Uint32Array(GRID_SIZE * GRID_SIZE);
+  const frameSum = [0, 0, 0];
+
+  // Sample every other pixel in each direction; plenty for cell means
+  for (let y = 0; y < height; y += 2) {
+    const cy = Math.min(GRID_SIZE - 1, Math.floor((y * GRID_SIZE) / height));
+    for (let x = 0; x < width; x += 2) {
+      const cx = Math.min(GRID_SIZE - 1, Math.floor((x * GRID_SIZE) / width));
+      const cell = cy * GRID_SIZE + cx;
+      const idx = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        cellSums[cell * 3 + c] += data[idx + c];
+        frameSum[c] += data[idx + c];
+      }
+      cellCounts[cell]++;
+    }
+  }
+
+  const sampleCount = cellCounts.reduce((sum, count) => sum + count, 0);
+  if (sampleCount === 0) {
+    return { x: 0, y: 0, width: 1, height: 1 };
+  }
+  const frameMean = frameSum.map(sum => sum / sampleCount);
+
+  // Per-cell saliency with a gentle centre prior
+  const saliency = new Float64Array(GRID_SIZE * GRID_SIZE);
+  for (let cy = 0; cy < GRID_SIZE; cy++) {
+    for (let cx = 0; cx < GRID_SIZE; cx++) {
+      const cell = cy * GRID_SIZE + cx;
+      if (cellCounts[cell] === 0) continue;
+
+      let distanceSquared = 0;
+      for (let c = 0; c < 3; c++) {
+        const diff = cellSums[cell * 3 + c] / cellCounts[cell] - frameMean[c];
+        distanceSquared += diff * diff;
+      }
+
+      const dx = (cx + 0.5) / GRID_SIZE - 0.5;
+      const dy = (cy + 0.5) / GRID_SIZE - 0.5;
+      const centerPrior = 1 - Math.min(1, Math.sqrt(dx * dx + dy * dy) / Math.SQRT1_2) * 0.5;
+
+      saliency[cell] = Math.sqrt(distanceSquared) * centerPrior;
+    }
+  }
+
+  // Slide the subject window over the grid and keep the most salient position
+  let best = { cx: Math.floor((GRID_SIZE - WINDOW_CELLS) / 2), cy: Math.floor((GRID_SIZE - WINDOW_CELLS) / 2) };
+  let bestScore = 0;
+  for (let cy = 0; cy <= GRID_SIZE - WINDOW_CELLS; cy++) {
+    for (let cx = 0; cx <= GRID_SIZE - WINDOW_CELLS; cx++) {
+      let score = 0;
+      for (let wy = 0; wy < WINDOW_CELLS; wy++) {
+        for (let wx = 0; wx < WINDOW_CELLS; wx++) {
+          score += saliency[(cy + wy) * GRID_SIZE + cx + wx];
+        }
+      }
+      if (score > bestScore) {
+        bestScore = score;
+        best = { cx, cy };
+      }
+    }
+  }
+
+  return {
+    x: best.cx / GRID_SIZE,
+    y: best.cy / GRID_SIZE,
+    width: WINDOW_CELLS / GRID_SIZE,
+    height: WINDOW_CELLS / GRID_SIZE
+  };
+}
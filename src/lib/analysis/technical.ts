@@ -0,0 +1,344 @@
+import { adjustBlurForCapture, adjustNoiseForCapture, assessCapture } from "./capture";
+import { grayHistogram, luminance, toGrayscale } from "./pixels";
+import { combineBlur, combineTechnical } from "./scoring";
+import { findSubjectRegion } from "./subject";
+import type {
+  CaptureSettings,
+  PixelBuffer,
+  RelativeBox,
+  SharpnessMap,
+  SubjectRegion,
+  TechnicalQualityResult,
+} from "./types";
+
+// Regions smaller than this (in pixels per side) are too small to judge focus
+const MIN_REGION_SIZE = 8;
+
+// Gray levels at or beyond which a pixel counts as clipped
+const SHADOW_CLIP_LEVEL = 5;
+const HIGHLIGHT_CLIP_LEVEL = 250;
+
+/**
+ * Technical quality analysis (blur, noise, exposure). Sharpness is measured
+ * inside each face box when faces are given, otherwise inside the salient
+ * subject region, and that subject sharpness dominates blurScore so a sharp
+ * background cannot hide a soft subject. Camera settings, when known, temper
+ * the blur and noise scores with what the ISO and shutter speed predict.
+ */
+export function analyzeTechnicalQuality(
+  pixels: PixelBuffer,
+  faceBoxes: RelativeBox[] = [],
+  settings?: CaptureSettings
+): TechnicalQualityResult {
+  const capture = assessCapture(settings);
+
+  // Analyze blur using Laplacian variance, over the frame and the subject
+  const laplacian = computeLaplacian(pixels);
+  const frameBlurScore = normalizeBlur(
+    laplacianVariance(laplacian, pixels.width, 1, 1, pixels.width - 1, pixels.height - 1)
+  );
+
+  const subjectBoxes = faceBoxes.length > 0
+    ? faceBoxes.map(box => ({ box, source: "face" as const }))
+    : [{ box: findSubjectRegion(pixels), source: "saliency" as const }];
+
+  const subjectRegions: SubjectRegion[] = subjectBoxes.flatMap(({ box, source }) => {
+    const blurScore = detectRegionBlur(laplacian, pixels.width, pixels.height, box);
+    return blurScore === null ? [] : [{ box, source, blurScore }];
+  });
+
+  // Larger subjects count more towards subject sharpness
+  const subjectArea = subjectRegions.reduce((sum, region) => sum + region.box.width * region.box.height, 0);
+  const subjectBlurScore = subjectArea > 0
+    ? subjectRegions.reduce((sum, region) => sum + region.blurScore * region.box.width * region.box.height, 0) / subjectArea
+    : frameBlurScore;
+
+  const blurScore = adjustBlurForCapture(combineBlur(subjectBlurScore, frameBlurScore), capture);
+
+  // Analyze noise using standard deviation in uniform areas
+  const noiseScore = adjustNoiseForCapture(detectNoise(pixels), capture);
+
+  // Analyze exposure using histogram analysis
+  const exposureScore = analyzeExposure(pixels);
+  const { highlightClipping, shadowClipping } = measureClipping(pixels);
+
+  // Calculate overall technical quality score
+  const overallScore = combineTechnical({ blurScore, noiseScore, exposureScore });
+
+  return {
+    blurScore,
+    frameBlurScore,
+    subjectBlurScore,
+    subjectRegions,
+    noiseScore,
+    exposureScore,
+    highlightClipping,
+    shadowClipping,
+    capture,
+    overallScore
+  };
+}
+
+// Detect blur using Laplacian variance (higher variance = less blur)
+export function detectBlur(pixels: PixelBuffer): number {
+  const laplacian = computeLaplacian(pixels);
+  return normalizeBlur(
+    laplacianVariance(laplacian, pixels.width, 1, 1, pixels.width - 1, pixels.height - 1)
+  );
+}
+
+// Blur score inside a relative box, or null if the box is too small to judge
+export function detectRegionBlur(
+  laplacian: Int16Array,
+  width: number,
+  height: number,
+  box: RelativeBox
+): number | null {
+  // Convert to pixel bounds, staying clear of the unfiltered border
+  const x0 = Math.max(1, Math.floor(box.x * width));
+  const y0 = Math.max(1, Math.floor(box.y * height));
+  const x1 = Math.min(width - 1, Math.ceil((box.x + box.width) * width));
+  const y1 = Math.min(height - 1, Math.ceil((box.y + box.height) * height));
+
+  if (x1 - x0 < MIN_REGION_SIZE || y1 - y0 < MIN_REGION_SIZE) {
+    return null;
+  }
+
+  return normalizeBlur(laplacianVariance(laplacian, width, x0, y0, x1, y1));
+}
+
+// Apply a 3x3 Laplacian filter to the grayscale image (border pixels stay 0)
+export function computeLaplacian(pixels: PixelBuffer): Int16Array {
+  const gray = toGrayscale(pixels);
+  const laplacian = new Int16Array(gray.length);
+  const width = pixels.width;
+  const height = pixels.height;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const idx = y * width + x;
+      laplacian[idx] =
+        -1 * gray[idx - width - 1] + -1 * gray[idx - width] + -1 * gray[idx - width + 1] +
+        -1 * gray[idx - 1] + 8 * gray[idx] + -1 * gray[idx + 1] +
+        -1 * gray[idx + width - 1] + -1 * gray[idx + width] + -1 * gray[idx + width + 1];
+    }
+  }
+
+  return laplacian;
+}
+
+// Local sharpness over a grid of roughly cellSize-pixel cells
+export function computeSharpnessMap(
+  laplacian: Int16Array,
+  width: number,
+  height: number,
+  cellSize = 32
+): SharpnessMap {
+  const columns = Math.max(1, Math.round(width / cellSize));
+  const rows = Math.max(1, Math.round(height / cellSize));
+  const values = new Float32Array(columns * rows);
+
+  for (let row = 0; row < rows; row++) {
+    // Stay clear of the unfiltered border
+    const y0 = Math.max(1, Math.floor((row * height) / rows));
+    const y1 = Math.min(height - 1, Math.floor(((row + 1) * height) / rows));
+    for (let column = 0; column < columns; column++) {
+      const x0 = Math.max(1, Math.floor((column * width) / columns));
+      const x1 = Math.min(width - 1, Math.floor(((column + 1) * width) / columns));
+      values[row * columns + column] = normalizeBlur(laplacianVariance(laplacian, width, x0, y0, x1, y1));
+    }
+  }
+
+  return { columns, rows, values };
+}
+
+// Variance of the Laplacian over the pixel rectangle [x0, x1) x [y0, y1)
+function laplacianVariance(
+  laplacian: Int16Array,
+  width: number,
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number
+): number {
+  let sum = 0;
+  let sumSquared = 0;
+  let count = 0;
+
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const value = laplacian[y * width + x];
+      sum += value;
+      sumSquared += value * value;
+      count++;
+    }
+  }
+
+  if (count === 0) {
+    return 0;
+  }
+
+  const mean = sum / count;
+  return (sumSquared / count) - (mean * mean);
+}
+
+// Normalize Laplacian variance to 0-1 range (higher is better)
+// Empirically determined thresholds
+function normalizeBlur(variance: number): number {
+  return Math.min(1, Math.max(0, variance / 1000));
+}
+
+// Detect noise using standard deviation in uniform areas
+export function detectNoise(pixels: PixelBuffer): number {
+  const blockSize = 8;
+  const width = pixels.width;
+  const height = pixels.height;
+
+  let totalNoise = 0;
+  let uniformBlocks = 0;
+
+  // Analyze noise in small blocks
+  for (let y = 0; y < height - blockSize; y += blockSize) {
+    for (let x = 0; x < width - blockSize; x += blockSize) {
+      const blockVariance = calculateBlockVariance(pixels, x, y, blockSize);
+
+      // If block is relatively uniform (low variance in color)
+      if (blockVariance.meanVariance < 100) {
+        totalNoise += blockVariance.noiseLevel;
+        uniformBlocks++;
+      }
+    }
+  }
+
+  // If no uniform blocks found, assume medium noise
+  if (uniformBlocks === 0) {
+    return 0.5;
+  }
+
+  const averageNoise = totalNoise / uniformBlocks;
+
+  // Normalize to 0-1 range (higher is better = less noise)
+  // Empirically determined thresholds
+  const normalizedScore = Math.min(1, Math.max(0, 1 - (averageNoise / 20)));
+
+  return normalizedScore;
+}
+
+// Calculate variance in a block to detect noise
+function calculateBlockVariance(pixels: PixelBuffer, x: number, y: number, blockSize: number) {
+  const width = pixels.width;
+  const pixelValues: number[] = [];
+
+  // Collect pixel values in the block
+  for (let j = 0; j < blockSize; j++) {
+    for (let i = 0; i < blockSize; i++) {
+      const idx = ((y + j) * width + (x + i)) * 4;
+      pixelValues.push(luminance(pixels.data[idx], pixels.data[idx + 1], pixels.data[idx + 2]));
+    }
+  }
+
+  // Calculate mean
+  const mean = pixelValues.reduce((sum, val) => sum + val, 0) / pixelValues.length;
+
+  // Calculate variance (color uniformity)
+  const colorVariance = pixelValues.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / pixelValues.length;
+
+  // Calculate noise level (standard deviation of differences between adjacent pixels)
+  let diffSum = 0;
+  let diffCount = 0;
+
+  for (let j = 0; j < blockSize; j++) {
+    for (let i = 0; i < blockSize - 1; i++) {
+      const idx1 = j * blockSize + i;
+      const idx2 = j * blockSize + i + 1;
+      diffSum += Math.abs(pixelValues[idx1] - pixelValues[idx2]);
+      diffCount++;
+    }
+  }
+
+  for (let i = 0; i < blockSize; i++) {
+    for (let j = 0; j < blockSize - 1; j++) {
+      const idx1 = j * blockSize + i;
+      const idx2 = (j + 1) * blockSize + i;
+      diffSum += Math.abs(pixelValues[idx1] - pixelValues[idx2]);
+      diffCount++;
+    }
+  }
+
+  const noiseLevel = diffSum / diffCount;
+
+  return {
+    meanVariance: colorVariance,
+    noiseLevel
+  };
+}
+
+// Analyze exposure using histogram analysis
+export function analyzeExposure(pixels: PixelBuffer): number {
+  const histogram = grayHistogram(pixels);
+
+  // Normalize histogram
+  const pixelCount = pixels.width * pixels.height;
+  const normalizedHistogram = histogram.map(count => count / pixelCount);
+
+  // Calculate mean and standard deviation
+  let mean = 0;
+  for (let i = 0; i < 256; i++) {
+    mean += i * normalizedHistogram[i];
+  }
+
+  let stdDev = 0;
+  for (let i = 0; i < 256; i++) {
+    stdDev += Math.pow(i - mean, 2) * normalizedHistogram[i];
+  }
+  stdDev = Math.sqrt(stdDev);
+
+  // Check for over/under exposure
+  const darkPixelRatio = normalizedHistogram.slice(0, 50).reduce((sum, val) => sum + val, 0);
+  const brightPixelRatio = normalizedHistogram.slice(200, 256).reduce((sum, val) => sum + val, 0);
+
+  // Ideal mean is around 128 (middle of range)
+  // Ideal standard deviation is around 50-60 (good contrast)
+  const meanScore = 1 - Math.abs(mean - 128) / 128;
+  const stdDevScore = Math.min(stdDev / 60, 1);
+
+  // Penalize for too many dark or bright pixels
+  const extremePixelPenalty = Math.max(0, darkPixelRatio - 0.1) + Math.max(0, brightPixelRatio - 0.1);
+
+  // Calculate overall exposure score
+  const exposureScore = Math.max(0, (meanScore * 0.5 + stdDevScore * 0.5) - extremePixelPenalty);
+
+  return exposureScore;
+}
+
+// Per-pixel clipping: 0 = fine, 1 = shadow clipped, 2 = highlight clipped
+export function computeClippingMask(pixels: PixelBuffer): Uint8Array {
+  const mask = new Uint8Array(pixels.width * pixels.height);
+  for (let i = 0; i < mask.length; i++) {
+    const idx = i * 4;
+    const gray = luminance(pixels.data[idx], pixels.data[idx + 1], pixels.data[idx + 2]);
+    if (gray <= SHADOW_CLIP_LEVEL) {
+      mask[i] = 1;
+    } else if (gray >= HIGHLIGHT_CLIP_LEVEL) {
+      mask[i] = 2;
+    }
+  }
+  return mask;
+}
+
+// Share of pixels clipped to pure black or pure white
+export function measureClipping(pixels: PixelBuffer): { highlightClipping: number; shadowClipping: number } {
+  const histogram = grayHistogram(pixels);
+  const pixelCount = pixels.width * pixels.height;
+  if (pixelCount === 0) {
+    return { highlightClipping: 0, shadowClipping: 0 };
+  }
+
+  const shadowPixels = histogram.slice(0, SHADOW_CLIP_LEVEL + 1).reduce((sum, count) => sum + count, 0);
+  const highlightPixels = histogram.slice(HIGHLIGHT_CLIP_LEVEL).reduce((sum, count) => sum + count, 0);
+
+  return {
+    highlightClipping: highlightPixels / pixelCount,
+    shadowClipping: shadowPixels / pixelCount
+  };
+}
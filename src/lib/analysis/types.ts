@@ -0,0 +1,201 @@
+// Raw RGBA pixel buffer, structurally compatible with ImageData so canvas
+// output can be passed straight in
+export interface PixelBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+// Box relative to the frame, all values 0-1
+export interface RelativeBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Region whose sharpness matters most: a detected face, or the salient
+// subject when there are none
+export interface SubjectRegion {
+  box: RelativeBox;
+  source: "face" | "saliency";
+  blurScore: number;
+}
+
+// Camera settings a photo was taken with, from EXIF or Google's metadata
+export interface CaptureSettings {
+  iso?: number;
+  // Shutter speed in seconds
+  exposureTime?: number;
+  // Focal length in mm, and its 35mm equivalent when the camera reports it
+  focalLength?: number;
+  focalLength35mm?: number;
+  // f-number
+  aperture?: number;
+}
+
+// What the capture settings predict about the frame; null when the setting
+// needed for a prediction is unknown
+export interface CaptureAssessment {
+  iso: number | null;
+  exposureTime: number | null;
+  // Slowest shutter speed that is safe to hand-hold at this focal length
+  safeShutterTime: number | null;
+  // 0 = base ISO, 1 = ISO 6400 and above
+  expectedNoise: number | null;
+  // 0 = at least twice as fast as the safe shutter, 1 = four times slower
+  motionBlurRisk: number | null;
+}
+
+// Define types for analysis results
+export interface TechnicalQualityResult {
+  // Sharpness used for scoring, dominated by the subject regions
+  blurScore: number;
+  // Laplacian sharpness over the whole frame
+  frameBlurScore: number;
+  // Area-weighted sharpness of the subject regions
+  subjectBlurScore: number;
+  subjectRegions: SubjectRegion[];
+  // Measured noise, tempered by the noise the ISO setting predicts
+  noiseScore: number;
+  exposureScore: number;
+  // Share of pixels blown to white / crushed to black
+  highlightClipping: number;
+  shadowClipping: number;
+  // Expectations from the camera settings, or null without metadata
+  capture: CaptureAssessment | null;
+  overallScore: number;
+}
+
+export interface AestheticResult {
+  // Mean of scoreDistribution on the 1-10 NIMA scale
+  meanScore: number;
+  // Standard deviation of scoreDistribution (how much raters would disagree)
+  stdDev: number;
+  // Probability of each score bucket 1..10
+  scoreDistribution: number[];
+  // Whether the distribution came from the NIMA model or the heuristic fallback
+  source: "nima" | "heuristic";
+}
+
+export interface ExpressionProbabilities {
+  happy: number;
+  sad: number;
+  angry: number;
+  fearful: number;
+  disgusted: number;
+  surprised: number;
+  neutral: number;
+}
+
+export interface EyeState {
+  // Eye aspect ratio of each eye
+  leftEAR: number;
+  rightEAR: number;
+  // 0 = fully closed, 1 = clearly open
+  openness: number;
+  closed: boolean;
+}
+
+export interface FaceDetail {
+  box: RelativeBox;
+  // Share of the frame covered by the face box
+  areaFraction: number;
+  // Relative influence on the group score, larger faces count more
+  weight: number;
+  expressionScore: number;
+  eyes: EyeState;
+  // 0 = profile, 1 = looking straight at the camera
+  frontality: number;
+  facingCamera: boolean;
+  // Combined expression, eyes and frontality score for this face
+  quality: number;
+}
+
+export interface FaceExpressionResult {
+  faceCount: number;
+  expressions: ExpressionProbabilities[];
+  // Per-face breakdown, in the same order as expressions
+  faces: FaceDetail[];
+  closedEyesCount: number;
+  bestExpressionScore: number;
+  // Group-aware score rewarding everyone looking good, not just the best face
+  groupScore: number;
+  eyesOpenFraction: number;
+  facingCameraFraction: number;
+}
+
+// Weights for every sub-metric that feeds the overall score. Weights within
+// a group are relative (they are normalized by their sum), so only the
+// ratios matter.
+export interface ScoringWeights {
+  // Top-level blend
+  technical: number;
+  aesthetic: number;
+  faces: number;
+  // Technical quality split
+  blur: number;
+  noise: number;
+  exposure: number;
+  // Share of blur taken from the subject rather than the whole frame (0-1)
+  subjectSharpness: number;
+  // Per-face quality split
+  expression: number;
+  eyesOpen: number;
+  facingCamera: number;
+  // Subtracted from the overall score in proportion to the share of faces
+  // with closed eyes (the full amount when every face has them)
+  closedEyesPenalty: number;
+  // Face score assumed for photos without faces; null leaves faces out of
+  // the blend for those photos instead
+  noFaceScore: number | null;
+}
+
+// Local sharpness on a coarse grid, row-major, each cell 0-1
+export interface SharpnessMap {
+  columns: number;
+  rows: number;
+  values: Float32Array;
+}
+
+// Edge-dense spot that draws the eye, position relative to the frame
+export interface InterestPoint {
+  x: number;
+  y: number;
+  // Edge density of the cell relative to the busiest cell (0-1)
+  strength: number;
+}
+
+// Intermediate buffers behind the scores, for visual overlays
+export interface AnalysisDiagnostics {
+  width: number;
+  height: number;
+  sharpnessMap: SharpnessMap;
+  // Per pixel: 0 = fine, 1 = shadow clipped, 2 = highlight clipped
+  clippingMask: Uint8Array;
+  interestPoints: InterestPoint[];
+}
+
+// A human-readable observation about a photo, derived from its metrics
+export interface Finding {
+  category: "sharpness" | "exposure" | "noise" | "composition" | "faces" | "aesthetics";
+  // Whether the finding helps or hurts the photo's score
+  impact: "positive" | "negative" | "neutral";
+  message: string;
+}
+
+export interface AnalysisResult {
+  photoId: string;
+  technicalQuality: TechnicalQualityResult;
+  aesthetics: AestheticResult;
+  faceExpressions: FaceExpressionResult;
+  overallScore: number;
+  // 64-bit dHash (hex) used to find near-duplicates across the set
+  perceptualHash: string;
+  // Coarse colour histogram used to tell scenes apart when ranking for
+  // variety. Results saved before it existed get one from a thumbnail when
+  // they are loaded again.
+  colorSignature?: number[];
+  // Reasons behind the scores, most important first
+  findings: Finding[];
+}
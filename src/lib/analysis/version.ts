@@ -0,0 +1,3 @@
+// Version of the analysis output. Bump it whenever a metric, model or the
+// result shape changes so stored results are re-analyzed instead of reused.
+export const ANALYZER_VERSION = "2";
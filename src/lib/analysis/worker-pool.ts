@@ -0,0 +1,167 @@
+import type { AnalysisResult, CaptureSettings } from "./types";
+import type { WorkerRequest, WorkerResponse } from "./worker-protocol";
+
+export interface AnalysisTask {
+  photoId: string;
+  url: string;
+  // Camera settings from the photo's metadata, if any
+  settings?: CaptureSettings;
+}
+
+export interface AnalysisCallbacks {
+  onResult?: (result: AnalysisResult) => void;
+  onError?: (photoId: string, message: string) => void;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+export interface AnalysisPool {
+  size: number;
+  analyze: (tasks: AnalysisTask[], callbacks?: AnalysisCallbacks) => Promise<AnalysisResult[]>;
+  terminate: () => void;
+}
+
+interface PendingTask extends AnalysisTask {
+  taskId: number;
+  resolve: (result: AnalysisResult) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  state: "loading" | "idle" | "busy" | "failed";
+  current?: PendingTask;
+}
+
+// Whether this browser can run analysis off the main thread
+export function isWorkerAnalysisSupported(): boolean {
+  return typeof Worker !== "undefined"
+    && typeof OffscreenCanvas !== "undefined"
+    && typeof createImageBitmap !== "undefined";
+}
+
+// Leave one core for the UI thread and cap at 4 (each worker holds its own models)
+export function defaultPoolSize(): number {
+  const cores = typeof navigator !== "undefined" ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(4, cores - 1));
+}
+
+/**
+ * Create a pool of analysis workers. Tasks are queued and handed to whichever
+ * worker is idle, and results, errors and progress are reported per photo as
+ * they arrive rather than at the end of the batch.
+ */
+export function createAnalysisPool(size = defaultPoolSize()): AnalysisPool {
+  const queue: PendingTask[] = [];
+  let nextTaskId = 0;
+
+  const workers: PoolWorker[] = Array.from({ length: size }, () => {
+    const entry: PoolWorker = {
+      worker: new Worker(new URL("./analysis.worker.ts", import.meta.url)),
+      state: "loading"
+    };
+
+    entry.worker.onmessage = ({ data }: MessageEvent<WorkerResponse>) => {
+      switch (data.type) {
+        case "ready":
+          entry.state = "idle";
+          break;
+        case "init-error":
+          console.error("Analysis worker failed to load models:", data.message);
+          entry.state = "failed";
+          break;
+        case "result":
+          entry.current?.resolve(data.result);
+          entry.current = undefined;
+          entry.state = "idle";
+          break;
+        case "error":
+          entry.current?.reject(new Error(data.message));
+          entry.current = undefined;
+          entry.state = "idle";
+          break;
+      }
+      dispatch();
+    };
+
+    entry.worker.onerror = (event) => {
+      event.preventDefault();
+      entry.current?.reject(new Error(event.message || "Analysis worker crashed"));
+      entry.current = undefined;
+      entry.state = "failed";
+      dispatch();
+    };
+
+    return entry;
+  });
+
+  // Hand queued tasks to idle workers
+  const dispatch = () => {
+    if (workers.every(entry => entry.state === "failed")) {
+      // Nothing will ever pick these up
+      for (const task of queue.splice(0)) {
+        task.reject(new Error("No analysis workers available"));
+      }
+      return;
+    }
+
+    for (const entry of workers) {
+      if (entry.state !== "idle" || queue.length === 0) {
+        continue;
+      }
+
+      const task = queue.shift()!;
+      entry.current = task;
+      entry.state = "busy";
+
+      const request: WorkerRequest = {
+        type: "analyze",
+        taskId: task.taskId,
+        photoId: task.photoId,
+        url: task.url,
+        settings: task.settings
+      };
+      entry.worker.postMessage(request);
+    }
+  };
+
+  const runTask = (task: AnalysisTask) =>
+    new Promise<AnalysisResult>((resolve, reject) => {
+      queue.push({ ...task, taskId: nextTaskId++, resolve, reject });
+      dispatch();
+    });
+
+  const analyze = async (tasks: AnalysisTask[], callbacks: AnalysisCallbacks = {}) => {
+    const results: AnalysisResult[] = [];
+    let completed = 0;
+
+    await Promise.all(tasks.map(task =>
+      runTask(task)
+        .then(
+          (result) => {
+            results.push(result);
+            callbacks.onResult?.(result);
+          },
+          (error: Error) => callbacks.onError?.(task.photoId, error.message)
+        )
+        .finally(() => {
+          completed++;
+          callbacks.onProgress?.(completed, tasks.length);
+        })
+    ));
+
+    return results;
+  };
+
+  const terminate = () => {
+    for (const entry of workers) {
+      entry.worker.terminate();
+      entry.current?.reject(new Error("Analysis pool terminated"));
+      entry.state = "failed";
+    }
+    for (const task of queue.splice(0)) {
+      task.reject(new Error("Analysis pool terminated"));
+    }
+  };
+
+  return { size, analyze, terminate };
+}
@@ -0,0 +1,17 @@
+import type { AnalysisResult, CaptureSettings } from "./types";
+
+// Messages sent from the pool to an analysis worker
+export type WorkerRequest = {
+  type: "analyze";
+  taskId: number;
+  photoId: string;
+  url: string;
+  settings?: CaptureSettings;
+};
+
+// Messages sent from an analysis worker back to the pool
+export type WorkerResponse =
+  | { type: "ready" }
+  | { type: "init-error"; message: string }
+  | { type: "result"; taskId: number; result: AnalysisResult }
+  | { type: "error"; taskId: number; message: string };
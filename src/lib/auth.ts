@@ -0,0 +1,176 @@
+import type { NextRequest } from "next/server";
+import { getServerSession, type NextAuthOptions } from "next-auth";
+import { getToken, type JWT } from "next-auth/jwt";
+import GoogleProvider from "next-auth/providers/google";
+import { GOOGLE_SCOPE_PARAM, missingScopes } from "@/lib/photos/scopes";
+
+// Refresh this many seconds before expiry so a request never starts with a
+// token that is about to lapse
+const EXPIRY_MARGIN_SECONDS = 60;
+
+// Access tokens refreshed on behalf of a JWT that has not been updated yet,
+// by user. The JWT cookie only changes when the session is polled, so
+// without this every proxied request after expiry would refresh again.
+const refreshedTokens = new Map<string, { accessToken: string; expiresAt: number }>();
+// Refreshes in progress, so a burst of requests shares one exchange
+const pendingRefreshes = new Map<string, Promise<JWT>>();
+
+// Exchange the stored refresh token for a new access token. On failure the
+// token is flagged so the client can ask the user to sign in again.
+async function refreshAccessToken(token: JWT): Promise<JWT> {
+  try {
+    if (!token.refreshToken) {
+      throw new Error("No refresh token stored");
+    }
+
+    const response = await fetch("https://oauth2.googleapis.com/token", {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        client_id: process.env.GOOGLE_CLIENT_ID as string,
+        client_secret: process.env.GOOGLE_CLIENT_SECRET as string,
+        grant_type: "refresh_token",
+        refresh_token: token.refreshToken,
+      }),
+    });
+
+    const refreshed = await response.json() as {
+      access_token?: string;
+      expires_in?: number;
+      refresh_token?: string;
+      error?: string;
+    };
+    if (!response.ok || !refreshed.access_token) {
+      throw new Error(`Failed to refresh access token: ${refreshed.error ?? response.statusText}`);
+    }
+
+    return {
+      ...token,
+      accessToken: refreshed.access_token,
+      expiresAt: Math.floor(Date.now() / 1000) + (refreshed.expires_in ?? 3600),
+      // Google only sometimes rotates the refresh token
+      refreshToken: refreshed.refresh_token ?? token.refreshToken,
+      error: undefined,
+    };
+  } catch (error) {
+    console.error("Error refreshing access token:", error);
+    return { ...token, error: "RefreshAccessTokenError" };
+  }
+}
+
+// NextAuth configuration, shared by the auth route and server-side session
+// lookups in the other API routes
+export const authOptions: NextAuthOptions = {
+  providers: [
+    GoogleProvider({
+      clientId: process.env.GOOGLE_CLIENT_ID as string,
+      clientSecret: process.env.GOOGLE_CLIENT_SECRET as string,
+      authorization: {
+        params: {
+          scope: GOOGLE_SCOPE_PARAM,
+          prompt: "consent",
+          access_type: "offline",
+          response_type: "code",
+        },
+      },
+    }),
+  ],
+  callbacks: {
+    // Google lets users untick individual scopes on the consent screen;
+    // send them back to the sign-in page to explain and re-consent
+    async signIn({ account }) {
+      if (account?.provider !== "google") {
+        return true;
+      }
+
+      const missing = missingScopes(account.scope);
+      if (missing.length === 0) {
+        return true;
+      }
+
+      const params = new URLSearchParams({ error: "MissingScope" });
+      missing.forEach(({ scope }) => params.append("scope", scope));
+      return `/auth/signin?${params}`;
+    },
+    // Save the access token and refresh token in the JWT, refreshing the
+    // access token once it is about to expire
+    async jwt({ token, account }) {
+      if (account) {
+        return {
+          ...token,
+          accessToken: account.access_token,
+          refreshToken: account.refresh_token,
+          expiresAt: account.expires_at,
+          error: undefined,
+        };
+      }
+
+      if (!token.expiresAt || Date.now() / 1000 < token.expiresAt - EXPIRY_MARGIN_SECONDS) {
+        return token;
+      }
+
+      return refreshAccessToken(token);
+    },
+    // Only expose the refresh status; Google tokens stay in the encrypted
+    // JWT and are used server-side by the Photos proxy routes
+    async session({ session, token }) {
+      if (session.user) {
+        session.error = token.error;
+      }
+      return session;
+    },
+  },
+  pages: {
+    signIn: "/auth/signin",
+    // OAuth errors land on the sign-in page, which explains them
+    error: "/auth/signin",
+  },
+  secret: process.env.NEXTAUTH_SECRET,
+};
+
+// Signed-in user for the current request, or null
+export async function getSessionUser(): Promise<{ email: string; name: string | null } | null> {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.email) {
+    return null;
+  }
+  return { email: session.user.email, name: session.user.name ?? null };
+}
+
+// Google access for the current request, read from the encrypted JWT and
+// refreshed if it is about to expire, or null if the user must sign in again
+export async function getGoogleAccess(
+  req: NextRequest
+): Promise<{ accessToken: string; userKey: string } | null> {
+  let token = await getToken({ req, secret: process.env.NEXTAUTH_SECRET });
+  if (!token?.accessToken || token.error) {
+    return null;
+  }
+
+  const userKey = token.sub ?? token.email ?? "unknown";
+  const isExpiring = (expiresAt: number) => Date.now() / 1000 >= expiresAt - EXPIRY_MARGIN_SECONDS;
+
+  if (token.expiresAt && isExpiring(token.expiresAt)) {
+    const cached = refreshedTokens.get(userKey);
+    if (cached && !isExpiring(cached.expiresAt)) {
+      return { accessToken: cached.accessToken, userKey };
+    }
+
+    let pending = pendingRefreshes.get(userKey);
+    if (!pending) {
+      pending = refreshAccessToken(token).finally(() => pendingRefreshes.delete(userKey));
+      pendingRefreshes.set(userKey, pending);
+    }
+    token = await pending;
+    if (token.error || !token.accessToken || !token.expiresAt) {
+      return null;
+    }
+    // Forget tokens that have lapsed, including other users'
+    for (const [key, cached] of refreshedTokens) {
+      if (isExpiring(cached.expiresAt)) refreshedTokens.delete(key);
+    }
+    refreshedTokens.set(userKey, { accessToken: token.accessToken, expiresAt: token.expiresAt });
+  }
+
+  return { accessToken: token.accessToken, userKey };
+}
@@ -0,0 +1,65 @@
+import type { AnalysisResult } from "@/lib/analysis";
+import type { SelectedPhoto } from "@/lib/photos/types";
+import { chunk } from "./index";
+import { PHOTO_ID_SUBQUERY, upsertPhotoStatements } from "./photos";
+
+export interface StoredAnalysis {
+  photo: SelectedPhoto;
+  result: AnalysisResult;
+}
+
+// Stored results for the given media items at the given analyzer version
+export async function getAnalysisResults(
+  db: D1Database,
+  userId: number,
+  mediaItemIds: string[],
+  analyzerVersion: string
+): Promise<AnalysisResult[]> {
+  const results: AnalysisResult[] = [];
+
+  // Leave room for the user id and version parameters
+  for (const ids of chunk(mediaItemIds, 80)) {
+    const { results: rows } = await db.prepare(
+      `SELECT r.result_json FROM analysis_results r
+       JOIN photos p ON p.id = r.photo_id
+       WHERE p.user_id = ? AND r.analyzer_version = ?
+         AND p.media_item_id IN (${ids.map(() => "?").join(", ")})`
+    )
+      .bind(userId, analyzerVersion, ...ids)
+      .all<{ result_json: string }>();
+
+    for (const row of rows) {
+      results.push(JSON.parse(row.result_json) as AnalysisResult);
+    }
+  }
+
+  return results;
+}
+
+// Upsert the photos and their results in one batch (a single transaction)
+export async function saveAnalysisResults(
+  db: D1Database,
+  userId: number,
+  entries: StoredAnalysis[],
+  analyzerVersion: string
+): Promise<void> {
+  if (entries.length === 0) {
+    return;
+  }
+
+  const upsertResult = db.prepare(
+    `INSERT INTO analysis_results (photo_id, analyzer_version, overall_score, result_json)
+     VALUES (${PHOTO_ID_SUBQUERY}, ?, ?, ?)
+     ON CONFLICT (photo_id, analyzer_version) DO UPDATE SET
+       overall_score = excluded.overall_score,
+       result_json = excluded.result_json,
+       analyzed_at = CURRENT_TIMESTAMP`
+  );
+
+  await db.batch([
+    ...upsertPhotoStatements(db, userId, entries.map(entry => entry.photo)),
+    ...entries.map(({ photo, result }) =>
+      upsertResult.bind(userId, photo.id, analyzerVersion, result.overallScore, JSON.stringify(result))
+    )
+  ]);
+}
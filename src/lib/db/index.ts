@@ -0,0 +1,33 @@
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+
+// D1 limits bound parameters per statement; stay well below it
+export const MAX_BOUND_PARAMS = 90;
+
+// D1 database bound as DB in wrangler.toml
+export async function getDB(): Promise<D1Database> {
+  const cf = await getCloudflareContext();
+  return cf.env.DB;
+}
+
+// Create the user on first sight and return their row id
+export async function ensureUser(db: D1Database, email: string, name: string | null): Promise<number> {
+  const row = await db.prepare(
+    "INSERT INTO users (email, name) VALUES (?, ?) ON CONFLICT (email) DO UPDATE SET name = excluded.name RETURNING id"
+  )
+    .bind(email, name)
+    .first<{ id: number }>();
+
+  if (!row) {
+    throw new Error(`Failed to upsert user ${email}`);
+  }
+  return row.id;
+}
+
+// Split values into chunks that fit in one statement's bound parameters
+export function chunk<T>(values: T[], size = MAX_BOUND_PARAMS): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < values.length; i += size) {
+    chunks.push(values.slice(i, i + size));
+  }
+  return chunks;
+}
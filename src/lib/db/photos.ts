@@ -0,0 +1,35 @@
+import type { SelectedPhoto } from "@/lib/photos/types";
+import { chunk, MAX_BOUND_PARAMS } from "./index";
+
+// Bound parameters per photo row
+const PHOTO_COLUMNS = 6;
+
+// Multi-row statements that create or refresh the user's photo rows, sized
+// to D1's bound parameter limit so large sets stay within its query limit
+export function upsertPhotoStatements(
+  db: D1Database,
+  userId: number,
+  photos: SelectedPhoto[]
+): D1PreparedStatement[] {
+  return chunk(photos, Math.floor(MAX_BOUND_PARAMS / PHOTO_COLUMNS)).map(rows =>
+    db.prepare(
+      `INSERT INTO photos (user_id, media_item_id, filename, mime_type, creation_time, metadata_json)
+       VALUES ${rows.map(() => "(?, ?, ?, ?, ?, ?)").join(", ")}
+       ON CONFLICT (user_id, media_item_id) DO UPDATE SET
+         filename = excluded.filename,
+         mime_type = excluded.mime_type,
+         creation_time = COALESCE(excluded.creation_time, photos.creation_time),
+         metadata_json = COALESCE(excluded.metadata_json, photos.metadata_json)`
+    ).bind(...rows.flatMap(photo => [
+      userId,
+      photo.id,
+      photo.filename,
+      photo.mimeType,
+      photo.creationTime ?? null,
+      photo.metadata ? JSON.stringify(photo.metadata) : null
+    ]))
+  );
+}
+
+// SQL expression resolving a media item id (bound after the user id) to its photo row id
+export const PHOTO_ID_SUBQUERY = "(SELECT id FROM photos WHERE user_id = ? AND media_item_id = ?)";
@@ -0,0 +1,201 @@
+import type { Album, SelectedPhoto } from "@/lib/photos/types";
+import type {
+  AnalysisSession,
+  AnalysisSessionState,
+  AnalysisSessionSummary,
+} from "@/lib/sessions/types";
+import { getAnalysisResults } from "./analysis-results";
+import { chunk, MAX_BOUND_PARAMS } from "./index";
+import { PHOTO_ID_SUBQUERY, upsertPhotoStatements } from "./photos";
+
+// Bound parameters per session_photos row
+const SESSION_PHOTO_PARAMS = 6;
+
+interface SessionRow {
+  id: string;
+  name: string;
+  selected_photo_ids: string;
+  cluster_picks: string;
+  album_json: string | null;
+  created_at: string;
+  updated_at: string;
+  photo_count: number;
+  analyzed_count: number;
+}
+
+// Per-session photo and current-version result counts
+const SESSION_SELECT = `
+  SELECT s.*, COUNT(sp.photo_id) AS photo_count, COUNT(r.id) AS analyzed_count
+  FROM analysis_sessions s
+  LEFT JOIN session_photos sp ON sp.session_id = s.id
+  LEFT JOIN analysis_results r ON r.photo_id = sp.photo_id AND r.analyzer_version = ?`;
+
+function toSummary(row: SessionRow): AnalysisSessionSummary {
+  const album = row.album_json ? JSON.parse(row.album_json) as Album : null;
+  return {
+    id: row.id,
+    name: row.name,
+    photoCount: row.photo_count,
+    analyzedCount: row.analyzed_count,
+    albumTitle: album?.title ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+// The user's sessions, most recently touched first
+export async function listSessions(
+  db: D1Database,
+  userId: number,
+  analyzerVersion: string
+): Promise<AnalysisSessionSummary[]> {
+  const { results } = await db.prepare(
+    `${SESSION_SELECT}
+     WHERE s.user_id = ?
+     GROUP BY s.id
+     ORDER BY s.updated_at DESC`
+  )
+    .bind(analyzerVersion, userId)
+    .all<SessionRow>();
+
+  return results.map(toSummary);
+}
+
+// Create a session for a photo set, registering any photos not seen before
+export async function createSession(
+  db: D1Database,
+  userId: number,
+  name: string,
+  photos: SelectedPhoto[]
+): Promise<string> {
+  const id = crypto.randomUUID();
+  const positioned = photos.map((photo, position) => ({ photo, position }));
+
+  // Multi-row inserts keep a large set well inside D1's per-batch query limit
+  const addPhotos = chunk(positioned, Math.floor(MAX_BOUND_PARAMS / SESSION_PHOTO_PARAMS)).map(rows =>
+    db.prepare(
+      `INSERT INTO session_photos (session_id, photo_id, position, base_url, picker_session_id)
+       VALUES ${rows.map(() => `(?, ${PHOTO_ID_SUBQUERY}, ?, ?, ?)`).join(", ")}`
+    ).bind(...rows.flatMap(({ photo, position }) => [
+      id,
+      userId,
+      photo.id,
+      position,
+      photo.baseUrl,
+      photo.pickerSessionId ?? null
+    ]))
+  );
+
+  await db.batch([
+    db.prepare("INSERT INTO analysis_sessions (id, user_id, name) VALUES (?, ?, ?)").bind(id, userId, name),
+    ...upsertPhotoStatements(db, userId, photos),
+    ...addPhotos
+  ]);
+
+  return id;
+}
+
+// A session with its photos and current-version results, or null if the
+// user has no such session
+export async function getSession(
+  db: D1Database,
+  userId: number,
+  sessionId: string,
+  analyzerVersion: string
+): Promise<AnalysisSession | null> {
+  const row = await db.prepare(
+    `${SESSION_SELECT}
+     WHERE s.user_id = ? AND s.id = ?
+     GROUP BY s.id`
+  )
+    .bind(analyzerVersion, userId, sessionId)
+    .first<SessionRow>();
+
+  if (!row) {
+    return null;
+  }
+
+  const { results: photoRows } = await db.prepare(
+    `SELECT p.media_item_id, p.filename, p.mime_type, p.creation_time, p.metadata_json, sp.base_url, sp.picker_session_id
+     FROM session_photos sp
+     JOIN photos p ON p.id = sp.photo_id
+     WHERE sp.session_id = ?
+     ORDER BY sp.position`
+  )
+    .bind(sessionId)
+    .all<{
+      media_item_id: string;
+      filename: string;
+      mime_type: string;
+      creation_time: string | null;
+      metadata_json: string | null;
+      base_url: string;
+      picker_session_id: string | null;
+    }>();
+
+  const photos: SelectedPhoto[] = photoRows.map(photo => ({
+    id: photo.media_item_id,
+    baseUrl: photo.base_url,
+    filename: photo.filename,
+    mimeType: photo.mime_type,
+    creationTime: photo.creation_time ?? undefined,
+    metadata: photo.metadata_json ? JSON.parse(photo.metadata_json) : undefined,
+    pickerSessionId: photo.picker_session_id ?? undefined
+  }));
+
+  return {
+    ...toSummary(row),
+    selectedPhotoIds: JSON.parse(row.selected_photo_ids),
+    clusterPicks: JSON.parse(row.cluster_picks),
+    album: row.album_json ? JSON.parse(row.album_json) : null,
+    photos,
+    results: await getAnalysisResults(db, userId, photos.map(photo => photo.id), analyzerVersion)
+  };
+}
+
+// Save curation changes; returns false if the user has no such session
+export async function updateSession(
+  db: D1Database,
+  userId: number,
+  sessionId: string,
+  changes: Partial<AnalysisSessionState> & { name?: string }
+): Promise<boolean> {
+  const assignments: string[] = [];
+  const values: unknown[] = [];
+
+  if (changes.name !== undefined) {
+    assignments.push("name = ?");
+    values.push(changes.name);
+  }
+  if (changes.selectedPhotoIds !== undefined) {
+    assignments.push("selected_photo_ids = ?");
+    values.push(JSON.stringify(changes.selectedPhotoIds));
+  }
+  if (changes.clusterPicks !== undefined) {
+    assignments.push("cluster_picks = ?");
+    values.push(JSON.stringify(changes.clusterPicks));
+  }
+  if (changes.album !== undefined) {
+    assignments.push("album_json = ?");
+    values.push(changes.album ? JSON.stringify(changes.album) : null);
+  }
+
+  const result = await db.prepare(
+    `UPDATE analysis_sessions
+     SET ${[...assignments, "updated_at = CURRENT_TIMESTAMP"].join(", ")}
+     WHERE id = ? AND user_id = ?`
+  )
+    .bind(...values, sessionId, userId)
+    .run();
+
+  return result.meta.changes > 0;
+}
+
+// Delete a session; its photos and stored results are kept for reuse
+export async function deleteSession(db: D1Database, userId: number, sessionId: string): Promise<boolean> {
+  const result = await db.prepare("DELETE FROM analysis_sessions WHERE id = ? AND user_id = ?")
+    .bind(sessionId, userId)
+    .run();
+
+  return result.meta.changes > 0;
+}
@@ -0,0 +1,12 @@
+/**
+ * Parse a request's JSON body. Resolves to null when the body is missing,
+ * malformed or not an object, so routes can answer 400 as for other bad input.
+ */
+export async function readJsonBody<T extends object>(request: Request): Promise<T | null> {
+  try {
+    const body: unknown = await request.json();
+    return typeof body === "object" && body !== null ? body as T : null;
+  } catch {
+    return null;
+  }
+}
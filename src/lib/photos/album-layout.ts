@@ -0,0 +1,171 @@
+import type { AnalysisResult, DuplicateCluster } from "@/lib/analysis";
+import { sceneOf } from "./album-title";
+import type { SelectedPhoto } from "./types";
+
+export type AlbumOrder = "selection" | "score" | "captureTime" | "scene";
+
+export const ALBUM_ORDER_OPTIONS: { value: AlbumOrder; label: string }[] = [
+  { value: "selection", label: "Order selected" },
+  { value: "score", label: "Best first" },
+  { value: "captureTime", label: "Capture time" },
+  { value: "scene", label: "By scene" },
+];
+
+// Captions cost one API call each, so only the best photos get one
+export const MAX_SCORE_CAPTIONS = 10;
+
+export interface AlbumLayoutOptions {
+  order: AlbumOrder;
+  // A text header before each day's photos in capture-time order, or before
+  // each scene and group of similar shots in scene order
+  sectionHeaders: boolean;
+  // A "#1 · 87% · Face is sharp" caption after the best photos
+  scoreCaptions: boolean;
+}
+
+// A run of photos added together, optionally under a text header
+export interface AlbumSection {
+  header: string | null;
+  photoIds: string[];
+}
+
+export interface AlbumLayout {
+  sections: AlbumSection[];
+  captions: { afterPhotoId: string; text: string }[];
+  // Best-scoring photo, the natural album cover
+  coverPhotoId: string | null;
+}
+
+function timeLabel(creationTime: string | undefined): string | null {
+  if (!creationTime) return null;
+  return new Date(creationTime).toLocaleString(undefined, {
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit"
+  });
+}
+
+function dayLabel(creationTime: string | undefined): string {
+  if (!creationTime) return "Undated";
+  return new Date(creationTime).toLocaleDateString(undefined, {
+    weekday: "long",
+    year: "numeric",
+    month: "long",
+    day: "numeric"
+  });
+}
+
+/**
+ * Decide the order, headers and captions of an album's photos. Results are
+ * expected ranked best first; photos without a result keep their selection
+ * order after the ranked ones. In scene order, near-duplicate clusters with
+ * several photos in the album are kept together under their own name.
+ */
+export function planAlbumLayout(
+  photoIds: string[],
+  photos: SelectedPhoto[],
+  rankedResults: AnalysisResult[],
+  clusters: DuplicateCluster[],
+  options: AlbumLayoutOptions
+): AlbumLayout {
+  const photoById = new Map(photos.map(photo => [photo.id, photo]));
+  const rankById = new Map(rankedResults.map((result, index) => [result.photoId, index]));
+  const resultById = new Map(rankedResults.map(result => [result.photoId, result]));
+  const rank = (id: string) => rankById.get(id) ?? Number.MAX_SAFE_INTEGER;
+  const captureTime = (id: string) => {
+    const time = photoById.get(id)?.creationTime;
+    return time ? Date.parse(time) : Number.MAX_SAFE_INTEGER;
+  };
+
+  const ordered = [...photoIds];
+  if (options.order === "score" || options.order === "scene") {
+    ordered.sort((a, b) => rank(a) - rank(b));
+  } else if (options.order === "captureTime") {
+    ordered.sort((a, b) => captureTime(a) - captureTime(b));
+  }
+
+  const sections: AlbumSection[] = [];
+  if (options.order === "scene") {
+    sections.push(...sceneSections(ordered, photoById, resultById, clusters, options.sectionHeaders));
+  } else if (options.order === "captureTime" && options.sectionHeaders) {
+    // Consecutive photos from the same day share a header
+    for (const id of ordered) {
+      const header = dayLabel(photoById.get(id)?.creationTime);
+      const last = sections[sections.length - 1];
+      if (last?.header === header) {
+        last.photoIds.push(id);
+      } else {
+        sections.push({ header, photoIds: [id] });
+      }
+    }
+  } else {
+    sections.push({ header: null, photoIds: ordered });
+  }
+
+  const byRank = [...photoIds].filter(id => rankById.has(id)).sort((a, b) => rank(a) - rank(b));
+  const captions = options.scoreCaptions
+    ? byRank.slice(0, MAX_SCORE_CAPTIONS).map((id, index) => {
+        const result = resultById.get(id);
+        // Lead with the photo's main strength, if it has one
+        const strength = result?.findings.find(finding => finding.impact === "positive");
+        return {
+          afterPhotoId: id,
+          text: [`#${index + 1}`, `${Math.round((result?.overallScore ?? 0) * 100)}%`, strength?.message]
+            .filter(Boolean)
+            .join(" · ")
+        };
+      })
+    : [];
+
+  return { sections, captions, coverPhotoId: byRank[0] ?? null };
+}
+
+// Group rank-ordered photos by scene, best scene first. Within a scene the
+// photos of a near-duplicate cluster follow one another as a named section;
+// the remaining photos go under the scene's own header.
+function sceneSections(
+  ordered: string[],
+  photoById: Map<string, SelectedPhoto>,
+  resultById: Map<string, AnalysisResult>,
+  clusters: DuplicateCluster[],
+  withHeaders: boolean
+): AlbumSection[] {
+  const inAlbum = new Set(ordered);
+  const clusterByPhotoId = new Map(clusters.flatMap(cluster => {
+    const members = cluster.photoIds.filter(id => inAlbum.has(id));
+    return members.length > 1 ? members.map(id => [id, members] as const) : [];
+  }));
+
+  // Photos without a result cannot be told apart by scene
+  const scenes = new Map<string, string[]>();
+  for (const id of ordered) {
+    const result = resultById.get(id);
+    const scene = result ? sceneOf(result) : "Other photos";
+    scenes.set(scene, [...(scenes.get(scene) ?? []), id]);
+  }
+
+  const sections: AlbumSection[] = [];
+  for (const [scene, ids] of scenes) {
+    const singles = ids.filter(id => !clusterByPhotoId.has(id));
+    if (singles.length > 0) {
+      sections.push({ header: withHeaders ? scene : null, photoIds: singles });
+    }
+
+    const named = new Set<string[]>();
+    for (const id of ids) {
+      const members = clusterByPhotoId.get(id);
+      if (!members || named.has(members)) continue;
+      named.add(members);
+
+      // Named after the scene and when the burst was taken; members judged
+      // a different scene are placed with that scene
+      const shots = members.filter(member => ids.includes(member));
+      const header = [scene, `${shots.length} similar shots`, timeLabel(photoById.get(shots[0])?.creationTime)]
+        .filter(Boolean)
+        .join(" · ");
+      sections.push({ header: withHeaders ? header : null, photoIds: shots });
+    }
+  }
+  return sections;
+}
@@ -0,0 +1,86 @@
+import type { AnalysisResult } from "@/lib/analysis";
+import type { SelectedPhoto } from "./types";
+
+// Used when the template leaves nothing to show
+export const FALLBACK_ALBUM_TITLE = "Photo Analysis Results";
+
+export const DEFAULT_TITLE_TEMPLATE = "{dates} · Best of {total}";
+
+// Placeholders a title template may use
+export const TITLE_TOKENS: { token: string; description: string }[] = [
+  { token: "{dates}", description: "Capture date range" },
+  { token: "{scene}", description: "Portraits, group photos or scenery, when most photos share one" },
+  { token: "{count}", description: "Photos going into the album" },
+  { token: "{total}", description: "Photos analyzed" },
+];
+
+// A scene type must cover this share of the photos to describe the album
+const DOMINANT_SCENE_SHARE = 0.6;
+
+export interface AlbumTitleValues {
+  dates: string | null;
+  scene: string | null;
+  count: number;
+  total: number;
+}
+
+// "12–15 Oct 2026", or a single day, from the photos' capture times
+export function formatDateRange(photos: SelectedPhoto[]): string | null {
+  const times = photos
+    .map(photo => (photo.creationTime ? Date.parse(photo.creationTime) : NaN))
+    .filter(time => !Number.isNaN(time));
+  if (times.length === 0) return null;
+
+  const format = new Intl.DateTimeFormat(undefined, { day: "numeric", month: "short", year: "numeric" });
+  return format.formatRange(Math.min(...times), Math.max(...times));
+}
+
+// What a photo shows, judged by its faces
+export function sceneOf(result: AnalysisResult): string {
+  const faces = result.faceExpressions.faceCount;
+  return faces >= 3 ? "Group photos" : faces > 0 ? "Portraits" : "Scenery";
+}
+
+// What most photos show; null for a mixed set
+export function dominantScene(results: AnalysisResult[]): string | null {
+  if (results.length === 0) return null;
+
+  const counts = new Map<string, number>();
+  for (const result of results) {
+    const scene = sceneOf(result);
+    counts.set(scene, (counts.get(scene) ?? 0) + 1);
+  }
+
+  const [scene, count] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+  return count / results.length >= DOMINANT_SCENE_SHARE ? scene : null;
+}
+
+/**
+ * Fill in a title template. Segments separated by "·" whose placeholders are
+ * all empty are dropped, so "{scene} · {dates}" for a mixed set becomes just
+ * the dates.
+ */
+export function renderTitleTemplate(template: string, values: AlbumTitleValues): string {
+  const segments = template.split("·").map(segment => {
+    let empty = true;
+    let used = false;
+    const text = segment.replace(/\{(\w+)\}/g, (match, name: string) => {
+      if (!(name in values)) return match;
+      used = true;
+      const value = values[name as keyof AlbumTitleValues];
+      if (value === null || value === "") return "";
+      empty = false;
+      return String(value);
+    });
+    return used && empty ? "" : text.trim();
+  });
+
+  return segments.filter(Boolean).join(" · ") || FALLBACK_ALBUM_TITLE;
+}
+
+// A sentence or two for the top of a new album
+export function describeAlbum(values: AlbumTitleValues): string {
+  const parts = [`${values.count} ${values.scene?.toLowerCase() ?? "photos"}`];
+  if (values.dates) parts.push(`from ${values.dates}`);
+  return `${parts.join(" ")}, picked as the best of ${values.total} by quality, composition and expressions.`;
+}
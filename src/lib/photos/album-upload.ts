@@ -0,0 +1,199 @@
+import type { AlbumLayout } from "./album-layout";
+import { addAlbumTextEnrichment, addMediaItemsToAlbum, removeMediaItemsFromAlbum, setAlbumCover } from "./client";
+import { PhotosApiError } from "./errors";
+import type { EnrichmentPosition } from "./types";
+
+// Library API limit for batchAddMediaItems and batchRemoveMediaItems
+export const ALBUM_BATCH_LIMIT = 50;
+
+// Attempts per request for rate limits, server errors and network failures
+const MAX_ATTEMPTS = 4;
+// Delay before the first retry; doubled for each one after
+const BASE_RETRY_DELAY_MS = 1000;
+
+export interface AlbumItemFailure {
+  mediaItemId: string;
+  message: string;
+}
+
+export interface AlbumAddOutcome {
+  added: string[];
+  failed: AlbumItemFailure[];
+  // Google access expired part way; the remaining items were not attempted
+  authExpired: boolean;
+}
+
+export interface AlbumLayoutOutcome extends AlbumAddOutcome {
+  // Headers, captions or the cover that could not be set; the photos are unaffected
+  enrichmentFailures: number;
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function chunk<T>(values: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < values.length; i += size) {
+    chunks.push(values.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// Rate limits, server errors and network failures may succeed later; a 400
+// or 403 means one of the items is rejected, and a 401 needs re-auth
+function isTransient(error: unknown): boolean {
+  if (error instanceof PhotosApiError) {
+    return error.status === 429 || error.status >= 500;
+  }
+  return true;
+}
+
+// Run a request, retrying transient failures with exponential backoff
+async function withRetry(request: () => Promise<void>): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (attempt >= MAX_ATTEMPTS || !isTransient(error)) {
+        throw error;
+      }
+      await wait(BASE_RETRY_DELAY_MS * 2 ** (attempt - 1));
+    }
+  }
+}
+
+// The API adds a batch all-or-nothing, so a rejected batch is split in half
+// until the items it refuses are isolated
+async function addBatch(albumId: string, ids: string[], outcome: AlbumAddOutcome): Promise<void> {
+  try {
+    await withRetry(() => addMediaItemsToAlbum(albumId, ids));
+    outcome.added.push(...ids);
+  } catch (error) {
+    if (error instanceof PhotosApiError && error.status === 401) {
+      throw error;
+    }
+    if (ids.length === 1 || isTransient(error)) {
+      const message = error instanceof Error ? error.message : String(error);
+      outcome.failed.push(...ids.map(mediaItemId => ({ mediaItemId, message })));
+      return;
+    }
+
+    const middle = Math.ceil(ids.length / 2);
+    await addBatch(albumId, ids.slice(0, middle), outcome);
+    await addBatch(albumId, ids.slice(middle), outcome);
+  }
+}
+
+/**
+ * Add media items to an album in batches of 50, one batch at a time.
+ * Transient errors are retried with backoff; items Google refuses are
+ * reported individually instead of failing the whole album. An expired
+ * session (401) stops the run and reports the remaining items as failed.
+ */
+export async function addToAlbumInBatches(
+  albumId: string,
+  mediaItemIds: string[],
+  onProgress?: (processed: number, total: number) => void
+): Promise<AlbumAddOutcome> {
+  const outcome: AlbumAddOutcome = { added: [], failed: [], authExpired: false };
+
+  for (const batch of chunk(mediaItemIds, ALBUM_BATCH_LIMIT)) {
+    try {
+      await addBatch(albumId, batch, outcome);
+    } catch (error) {
+      if (!(error instanceof PhotosApiError && error.status === 401)) {
+        throw error;
+      }
+      const done = new Set([...outcome.added, ...outcome.failed.map(failure => failure.mediaItemId)]);
+      outcome.failed.push(...mediaItemIds
+        .filter(id => !done.has(id))
+        .map(mediaItemId => ({ mediaItemId, message: error.message })));
+      outcome.authExpired = true;
+      break;
+    }
+    onProgress?.(outcome.added.length + outcome.failed.length, mediaItemIds.length);
+  }
+  return outcome;
+}
+
+/**
+ * Take items back out of an album, e.g. to roll back a partially filled one.
+ * The Library API cannot delete albums, so the emptied album remains.
+ */
+export async function removeFromAlbumInBatches(albumId: string, mediaItemIds: string[]): Promise<void> {
+  for (const batch of chunk(mediaItemIds, ALBUM_BATCH_LIMIT)) {
+    await withRetry(() => removeMediaItemsFromAlbum(albumId, batch));
+  }
+}
+
+/**
+ * Fill an album following a planned layout: an optional description goes
+ * first and each section's header is appended before its photos. Once
+ * everything is added, captions go after the photos they describe and the
+ * cover is set last. Enrichments are cosmetic, so failing ones are counted
+ * rather than failing the album.
+ */
+export async function addToAlbumWithLayout(
+  albumId: string,
+  layout: AlbumLayout,
+  options: { setCover: boolean; description?: string },
+  onProgress?: (processed: number, total: number) => void
+): Promise<AlbumLayoutOutcome> {
+  const outcome: AlbumLayoutOutcome = { added: [], failed: [], authExpired: false, enrichmentFailures: 0 };
+  const total = layout.sections.reduce((sum, section) => sum + section.photoIds.length, 0);
+
+  // Run one enrichment call; only an expired session stops the run
+  const enrich = async (request: () => Promise<void>) => {
+    if (outcome.authExpired) {
+      outcome.enrichmentFailures++;
+      return;
+    }
+    try {
+      await withRetry(request);
+    } catch (error) {
+      if (error instanceof PhotosApiError && error.status === 401) {
+        outcome.authExpired = true;
+      }
+      outcome.enrichmentFailures++;
+    }
+  };
+
+  const description = options.description?.trim();
+  if (description) {
+    await enrich(() => addAlbumTextEnrichment(albumId, description, { position: "FIRST_IN_ALBUM" }));
+  }
+
+  for (const section of layout.sections) {
+    if (section.header) {
+      const header = section.header;
+      const position: EnrichmentPosition = { position: "LAST_IN_ALBUM" };
+      await enrich(() => addAlbumTextEnrichment(albumId, header, position));
+    }
+    if (outcome.authExpired) {
+      outcome.failed.push(...section.photoIds.map(mediaItemId => ({ mediaItemId, message: "Google access expired" })));
+      continue;
+    }
+
+    const offset = outcome.added.length + outcome.failed.length;
+    const sectionOutcome = await addToAlbumInBatches(
+      albumId,
+      section.photoIds,
+      processed => onProgress?.(offset + processed, total)
+    );
+    outcome.added.push(...sectionOutcome.added);
+    outcome.failed.push(...sectionOutcome.failed);
+    outcome.authExpired = sectionOutcome.authExpired;
+  }
+
+  const added = new Set(outcome.added);
+  for (const caption of layout.captions.filter(caption => added.has(caption.afterPhotoId))) {
+    const position: EnrichmentPosition = { position: "AFTER_MEDIA_ITEM", relativeMediaItemId: caption.afterPhotoId };
+    await enrich(() => addAlbumTextEnrichment(albumId, caption.text, position));
+  }
+
+  // The cover may also be a photo the album already held
+  const cover = layout.coverPhotoId;
+  if (options.setCover && cover && !outcome.failed.some(failure => failure.mediaItemId === cover)) {
+    await enrich(() => setAlbumCover(albumId, cover));
+  }
+  return outcome;
+}
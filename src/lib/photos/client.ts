@@ -0,0 +1,93 @@
+import { PhotosApiError } from "./errors";
+import type { Album, EnrichmentPosition, MediaItem, PickerSession, SelectedPhoto } from "./types";
+
+// Call one of our Photos proxy routes from the browser
+async function proxyRequest<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`/api/photos${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers }
+  });
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    const message = (body as { error?: string } | null)?.error ?? response.statusText;
+    throw new PhotosApiError(message, response.status);
+  }
+  return body as T;
+}
+
+export function createAlbum(title: string): Promise<Album> {
+  return proxyRequest<Album>("/albums", {
+    method: "POST",
+    body: JSON.stringify({ title })
+  });
+}
+
+export async function listAlbums(): Promise<Album[]> {
+  const { albums } = await proxyRequest<{ albums: Album[] }>("/albums");
+  return albums;
+}
+
+export async function getAlbumMediaItemIds(albumId: string): Promise<string[]> {
+  const { mediaItemIds } = await proxyRequest<{ mediaItemIds: string[] }>(
+    `/albums/${encodeURIComponent(albumId)}/media-items`
+  );
+  return mediaItemIds;
+}
+
+export async function addMediaItemsToAlbum(albumId: string, mediaItemIds: string[]): Promise<void> {
+  await proxyRequest(`/albums/${encodeURIComponent(albumId)}/media-items`, {
+    method: "POST",
+    body: JSON.stringify({ mediaItemIds })
+  });
+}
+
+export async function removeMediaItemsFromAlbum(albumId: string, mediaItemIds: string[]): Promise<void> {
+  await proxyRequest(`/albums/${encodeURIComponent(albumId)}/media-items`, {
+    method: "DELETE",
+    body: JSON.stringify({ mediaItemIds })
+  });
+}
+
+export async function addAlbumTextEnrichment(
+  albumId: string,
+  text: string,
+  albumPosition: EnrichmentPosition
+): Promise<void> {
+  await proxyRequest(`/albums/${encodeURIComponent(albumId)}/enrichments`, {
+    method: "POST",
+    body: JSON.stringify({ text, albumPosition })
+  });
+}
+
+export async function setAlbumCover(albumId: string, mediaItemId: string): Promise<void> {
+  await proxyRequest(`/albums/${encodeURIComponent(albumId)}`, {
+    method: "PATCH",
+    body: JSON.stringify({ coverPhotoMediaItemId: mediaItemId })
+  });
+}
+
+export async function getMediaItems(mediaItemIds: string[]): Promise<MediaItem[]> {
+  const query = mediaItemIds.map(id => `ids=${encodeURIComponent(id)}`).join("&");
+  const { mediaItems } = await proxyRequest<{ mediaItems: MediaItem[] }>(`/media-items?${query}`);
+  return mediaItems;
+}
+
+export function createPickerSession(): Promise<PickerSession> {
+  return proxyRequest<PickerSession>("/picker/sessions", { method: "POST" });
+}
+
+export function getPickerSession(sessionId: string): Promise<PickerSession> {
+  return proxyRequest<PickerSession>(`/picker/sessions/${encodeURIComponent(sessionId)}`);
+}
+
+export async function getPickedPhotos(sessionId: string): Promise<SelectedPhoto[]> {
+  const { photos } = await proxyRequest<{ photos: SelectedPhoto[] }>(
+    `/picker/sessions/${encodeURIComponent(sessionId)}/media-items`
+  );
+  return photos;
+}
+
+export async function deletePickerSession(sessionId: string): Promise<void> {
+  await proxyRequest(`/picker/sessions/${encodeURIComponent(sessionId)}`, { method: "DELETE" });
+}
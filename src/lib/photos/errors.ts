@@ -0,0 +1,8 @@
+// Error from a Google Photos call, carrying the HTTP status so callers can
+// tell an expired session (401) or rate limit (429) from other failures
+export class PhotosApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "PhotosApiError";
+  }
+}
@@ -0,0 +1,197 @@
+import type { PhotoMetadata } from "./types";
+
+// TIFF tags read from IFD0, the Exif sub-IFD and the GPS sub-IFD
+const TAG = {
+  make: 0x010f,
+  model: 0x0110,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  exposureTime: 0x829a,
+  fNumber: 0x829d,
+  iso: 0x8827,
+  dateTimeOriginal: 0x9003,
+  offsetTimeOriginal: 0x9011,
+  focalLength: 0x920a,
+  pixelXDimension: 0xa002,
+  pixelYDimension: 0xa003,
+  focalLength35mm: 0xa405,
+  lensModel: 0xa434,
+  gpsLatitudeRef: 0x0001,
+  gpsLatitude: 0x0002,
+  gpsLongitudeRef: 0x0003,
+  gpsLongitude: 0x0004,
+} as const;
+
+// Byte size of each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+type TagValue = string | number[];
+
+export interface ExifData {
+  metadata: PhotoMetadata;
+  // ISO 8601 time the shutter fired
+  captureTime?: string;
+}
+
+// Offset of the TIFF header inside a JPEG's Exif APP1 segment, or null
+function findTiffHeader(view: DataView): number | null {
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) {
+    return null;
+  }
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    // Start of scan: no metadata segments follow
+    if (marker === 0xffda || (marker & 0xff00) !== 0xff00) {
+      return null;
+    }
+
+    const length = view.getUint16(offset + 2);
+    // APP1 starting with "Exif\0\0"
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      return offset + 10;
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+// Read one IFD's entries into a map of tag to value
+function readIfd(view: DataView, tiff: number, ifdOffset: number, little: boolean): Map<number, TagValue> {
+  const tags = new Map<number, TagValue>();
+  const start = tiff + ifdOffset;
+  if (start + 2 > view.byteLength) {
+    return tags;
+  }
+
+  const count = view.getUint16(start, little);
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const components = view.getUint32(entry + 4, little);
+    const size = TYPE_SIZES[type];
+    if (!size) continue;
+
+    // Values up to 4 bytes are stored inline, larger ones at an offset
+    const valueOffset = size * components <= 4 ? entry + 8 : tiff + view.getUint32(entry + 8, little);
+    if (valueOffset + size * components > view.byteLength) continue;
+
+    tags.set(tag, readValue(view, valueOffset, type, components, little));
+  }
+  return tags;
+}
+
+function readValue(view: DataView, offset: number, type: number, components: number, little: boolean): TagValue {
+  if (type === 2) {
+    const bytes = new Uint8Array(view.buffer, view.byteOffset + offset, components);
+    return new TextDecoder().decode(bytes).replace(/\0+$/, "").trim();
+  }
+
+  const values: number[] = [];
+  for (let i = 0; i < components; i++) {
+    const at = offset + i * TYPE_SIZES[type];
+    switch (type) {
+      case 1:
+      case 7:
+        values.push(view.getUint8(at));
+        break;
+      case 3:
+        values.push(view.getUint16(at, little));
+        break;
+      case 4:
+        values.push(view.getUint32(at, little));
+        break;
+      case 9:
+        values.push(view.getInt32(at, little));
+        break;
+      case 5:
+      case 10: {
+        const read = type === 5 ? view.getUint32.bind(view) : view.getInt32.bind(view);
+        const denominator = read(at + 4, little);
+        values.push(denominator === 0 ? 0 : read(at, little) / denominator);
+        break;
+      }
+    }
+  }
+  return values;
+}
+
+function text(value: TagValue | undefined): string | undefined {
+  return typeof value === "string" && value !== "" ? value : undefined;
+}
+
+function number(value: TagValue | undefined): number | undefined {
+  return Array.isArray(value) && value.length > 0 && value[0] > 0 ? value[0] : undefined;
+}
+
+// Degrees, minutes, seconds plus an N/S/E/W reference to signed degrees
+function coordinate(value: TagValue | undefined, ref: TagValue | undefined): number | undefined {
+  if (!Array.isArray(value) || value.length < 3) {
+    return undefined;
+  }
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+  return ref === "S" || ref === "W" ? -degrees : degrees;
+}
+
+// "2024:06:01 14:30:05" (+ "+02:00") to ISO 8601. Without an offset the time
+// is taken as local to the browser, which is usually where the camera was.
+function captureTime(dateTime: string | undefined, offset: string | undefined): string | undefined {
+  const match = dateTime?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match) {
+    return undefined;
+  }
+  const [, year, month, day, hour, minute, second] = match;
+  const date = offset
+    ? new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`)
+    : new Date(+year, +month - 1, +day, +hour, +minute, +second);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Camera metadata from a JPEG's Exif block. Other formats, and files without
+ * Exif, give empty metadata; malformed blocks are read as far as possible.
+ */
+export function readExif(buffer: ArrayBuffer): ExifData {
+  const view = new DataView(buffer);
+  const tiff = findTiffHeader(view);
+  if (tiff === null || tiff + 8 > view.byteLength) {
+    return { metadata: {} };
+  }
+
+  // "II" = little-endian (Intel), "MM" = big-endian (Motorola)
+  const little = view.getUint16(tiff) === 0x4949;
+  const ifd0 = readIfd(view, tiff, view.getUint32(tiff + 4, little), little);
+  const exifOffset = number(ifd0.get(TAG.exifIfd));
+  const gpsOffset = number(ifd0.get(TAG.gpsIfd));
+  const exif = exifOffset ? readIfd(view, tiff, exifOffset, little) : new Map<number, TagValue>();
+  const gps = gpsOffset ? readIfd(view, tiff, gpsOffset, little) : new Map<number, TagValue>();
+
+  const latitude = coordinate(gps.get(TAG.gpsLatitude), gps.get(TAG.gpsLatitudeRef));
+  const longitude = coordinate(gps.get(TAG.gpsLongitude), gps.get(TAG.gpsLongitudeRef));
+
+  const metadata: PhotoMetadata = {
+    cameraMake: text(ifd0.get(TAG.make)),
+    cameraModel: text(ifd0.get(TAG.model)),
+    lensModel: text(exif.get(TAG.lensModel)),
+    iso: number(exif.get(TAG.iso)),
+    exposureTime: number(exif.get(TAG.exposureTime)),
+    aperture: number(exif.get(TAG.fNumber)),
+    focalLength: number(exif.get(TAG.focalLength)),
+    focalLength35mm: number(exif.get(TAG.focalLength35mm)),
+    width: number(exif.get(TAG.pixelXDimension)),
+    height: number(exif.get(TAG.pixelYDimension)),
+    location: latitude !== undefined && longitude !== undefined ? { latitude, longitude } : undefined,
+  };
+
+  return {
+    // Drop unknown fields so the metadata stays compact when stored
+    metadata: Object.fromEntries(
+      Object.entries(metadata).filter(([, value]) => value !== undefined)
+    ) as PhotoMetadata,
+    captureTime: captureTime(text(exif.get(TAG.dateTimeOriginal)), text(exif.get(TAG.offsetTimeOriginal))),
+  };
+}
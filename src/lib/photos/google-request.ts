@@ -0,0 +1,27 @@
+import { PhotosApiError } from "./errors";
+
+// Call a Google Photos API with the user's access token
+export async function googleApiRequest<T>(
+  baseUrl: string,
+  accessToken: string,
+  path: string,
+  init: RequestInit = {}
+): Promise<T> {
+  const response = await fetch(`${baseUrl}${path}`, {
+    ...init,
+    headers: {
+      "Authorization": `Bearer ${accessToken}`,
+      "Content-Type": "application/json",
+      ...init.headers
+    }
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null) as { error?: { message?: string } } | null;
+    throw new PhotosApiError(body?.error?.message ?? response.statusText, response.status);
+  }
+
+  // Deletes answer with an empty body
+  const text = await response.text();
+  return (text ? JSON.parse(text) : {}) as T;
+}
@@ -0,0 +1,115 @@
+import { googleApiRequest } from "./google-request";
+import type { Album, EnrichmentPosition, MediaItem } from "./types";
+
+// Overridable so the proxy routes can be exercised against a local stub
+const PHOTOS_API_URL = process.env.GOOGLE_PHOTOS_API_URL ?? "https://photoslibrary.googleapis.com";
+
+function photosRequest<T>(accessToken: string, path: string, init?: RequestInit): Promise<T> {
+  return googleApiRequest<T>(PHOTOS_API_URL, accessToken, path, init);
+}
+
+export async function createAlbum(accessToken: string, title: string): Promise<Album> {
+  const album = await photosRequest<Album>(accessToken, "/v1/albums", {
+    method: "POST",
+    body: JSON.stringify({ album: { title } })
+  });
+
+  return { id: album.id, title: album.title, productUrl: album.productUrl };
+}
+
+// Page sizes for listing albums and album contents (the API maximums)
+const ALBUM_PAGE_SIZE = 50;
+const MEDIA_ITEM_PAGE_SIZE = 100;
+
+// Every album the app created, following pagination
+export async function listAppCreatedAlbums(accessToken: string): Promise<Album[]> {
+  const albums: Album[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const params = new URLSearchParams({ pageSize: String(ALBUM_PAGE_SIZE), excludeNonAppCreatedData: "true" });
+    if (pageToken) params.set("pageToken", pageToken);
+
+    const page = await photosRequest<{ albums?: (Album & { mediaItemsCount?: string })[]; nextPageToken?: string }>(
+      accessToken,
+      `/v1/albums?${params}`
+    );
+    for (const album of page.albums ?? []) {
+      albums.push({
+        id: album.id,
+        title: album.title,
+        productUrl: album.productUrl,
+        // The API returns counts as int64 strings
+        mediaItemsCount: Number(album.mediaItemsCount ?? 0)
+      });
+    }
+    pageToken = page.nextPageToken;
+  } while (pageToken);
+
+  return albums;
+}
+
+// Ids of every media item in an album, following pagination
+export async function listAlbumMediaItemIds(accessToken: string, albumId: string): Promise<string[]> {
+  const ids: string[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const page = await photosRequest<{ mediaItems?: { id: string }[]; nextPageToken?: string }>(
+      accessToken,
+      "/v1/mediaItems:search",
+      {
+        method: "POST",
+        body: JSON.stringify({ albumId, pageSize: MEDIA_ITEM_PAGE_SIZE, pageToken })
+      }
+    );
+    ids.push(...(page.mediaItems ?? []).map(item => item.id));
+    pageToken = page.nextPageToken;
+  } while (pageToken);
+
+  return ids;
+}
+
+export async function batchAddMediaItems(accessToken: string, albumId: string, mediaItemIds: string[]): Promise<void> {
+  await photosRequest(accessToken, `/v1/albums/${encodeURIComponent(albumId)}:batchAddMediaItems`, {
+    method: "POST",
+    body: JSON.stringify({ mediaItemIds })
+  });
+}
+
+export async function batchRemoveMediaItems(accessToken: string, albumId: string, mediaItemIds: string[]): Promise<void> {
+  await photosRequest(accessToken, `/v1/albums/${encodeURIComponent(albumId)}:batchRemoveMediaItems`, {
+    method: "POST",
+    body: JSON.stringify({ mediaItemIds })
+  });
+}
+
+export async function addTextEnrichment(
+  accessToken: string,
+  albumId: string,
+  text: string,
+  albumPosition: EnrichmentPosition
+): Promise<void> {
+  await photosRequest(accessToken, `/v1/albums/${encodeURIComponent(albumId)}:addEnrichment`, {
+    method: "POST",
+    body: JSON.stringify({ newEnrichmentItem: { textEnrichment: { text } }, albumPosition })
+  });
+}
+
+export async function setAlbumCover(accessToken: string, albumId: string, mediaItemId: string): Promise<void> {
+  await photosRequest(accessToken, `/v1/albums/${encodeURIComponent(albumId)}?updateMask=coverPhotoMediaItemId`, {
+    method: "PATCH",
+    body: JSON.stringify({ coverPhotoMediaItemId: mediaItemId })
+  });
+}
+
+// Fetch up to 50 media items by id (the API's batchGet limit)
+export async function batchGetMediaItems(accessToken: string, mediaItemIds: string[]): Promise<MediaItem[]> {
+  const query = mediaItemIds.map(id => `mediaItemIds=${encodeURIComponent(id)}`).join("&");
+  const { mediaItemResults } = await photosRequest<{ mediaItemResults?: { mediaItem?: MediaItem }[] }>(
+    accessToken,
+    `/v1/mediaItems:batchGet?${query}`
+  );
+
+  return (mediaItemResults ?? []).flatMap(result => result.mediaItem ? [result.mediaItem] : []);
+}
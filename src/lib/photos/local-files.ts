@@ -0,0 +1,129 @@
+import { readExif } from "@/lib/photos/exif";
+import type { SelectedPhoto } from "@/lib/photos/types";
+
+// Formats every browser can decode into a canvas
+const SUPPORTED_IMAGE_TYPES = new Set([
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/gif",
+  "image/avif",
+]);
+
+// Hidden files such as .DS_Store or macOS ._ resource forks on camera cards
+const isHiddenName = (name: string) => name.startsWith(".");
+
+export function isSupportedImage(file: File): boolean {
+  return SUPPORTED_IMAGE_TYPES.has(file.type) && !isHiddenName(file.name);
+}
+
+// Read every entry of a directory; readEntries returns them in batches
+function readAllEntries(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+
+  return new Promise((resolve, reject) => {
+    const readBatch = () => {
+      reader.readEntries(batch => {
+        if (batch.length === 0) {
+          resolve(entries);
+          return;
+        }
+        entries.push(...batch);
+        readBatch();
+      }, reject);
+    };
+    readBatch();
+  });
+}
+
+// Collect the files under a dropped entry, walking into folders
+async function filesFromEntry(entry: FileSystemEntry): Promise<File[]> {
+  if (isHiddenName(entry.name)) {
+    return [];
+  }
+
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => {
+      (entry as FileSystemFileEntry).file(resolve, reject);
+    });
+    return [file];
+  }
+
+  if (entry.isDirectory) {
+    const children = await readAllEntries(entry as FileSystemDirectoryEntry);
+    const nested = await Promise.all(children.map(filesFromEntry));
+    return nested.flat();
+  }
+
+  return [];
+}
+
+/**
+ * Files dropped onto the page, including the contents of dropped folders.
+ * Entries must be read synchronously in the drop handler, before any await.
+ */
+export async function filesFromDataTransfer(dataTransfer: DataTransfer): Promise<File[]> {
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === "file")
+    .map(item => item.webkitGetAsEntry());
+
+  // Browsers without the entries API only expose top-level files
+  if (entries.some(entry => entry === null)) {
+    return Array.from(dataTransfer.files);
+  }
+
+  const nested = await Promise.all(entries.map(entry => filesFromEntry(entry as FileSystemEntry)));
+  return nested.flat();
+}
+
+// Hex SHA-256 of the file's bytes, so the same photo gets the same id
+// wherever it is imported from
+async function contentHash(buffer: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", buffer);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Turn local image files into photos the analyzer can load. Each photo gets
+ * an object URL, an id derived from its content and the camera metadata in
+ * its Exif block. Files that are not supported images, and duplicate copies
+ * of the same image, are skipped.
+ */
+export async function importLocalFiles(
+  files: File[],
+  onProgress?: (completed: number, total: number) => void
+): Promise<SelectedPhoto[]> {
+  const images = files.filter(isSupportedImage);
+  const photos = new Map<string, SelectedPhoto>();
+
+  // Hash one file at a time to keep memory flat for large camera files
+  for (let i = 0; i < images.length; i++) {
+    const file = images[i];
+    const buffer = await file.arrayBuffer();
+    const id = `local-${await contentHash(buffer)}`;
+    if (!photos.has(id)) {
+      const exif = readExif(buffer);
+      photos.set(id, {
+        id,
+        baseUrl: URL.createObjectURL(file),
+        filename: file.webkitRelativePath || file.name,
+        mimeType: file.type,
+        // The file's modification time is the best guess without Exif
+        creationTime: exif.captureTime ?? new Date(file.lastModified).toISOString(),
+        source: "local",
+        metadata: exif.metadata,
+      });
+    }
+    onProgress?.(i + 1, images.length);
+  }
+
+  return Array.from(photos.values());
+}
+
+// Release the object URLs of local photos that are no longer shown
+export function revokeLocalPhotos(photos: SelectedPhoto[]) {
+  photos
+    .filter(photo => photo.source === "local")
+    .forEach(photo => URL.revokeObjectURL(photo.baseUrl));
+}
@@ -0,0 +1,158 @@
+import { getPickedPhotos } from "./client";
+import { PhotosApiError } from "./errors";
+import { photoUrl } from "./photo-url";
+import type { SelectedPhoto } from "./types";
+
+// Google baseUrls expire after about 60 minutes; refresh a little earlier
+const BASE_URL_TTL_MS = 50 * 60 * 1000;
+// After a failed refresh, keep using the last baseUrl this long before retrying
+const RETRY_DELAY_MS = 60 * 1000;
+// Picker API answers for a session that was deleted or has expired
+const SESSION_GONE_STATUSES = new Set([400, 404]);
+
+interface TrackedBaseUrl {
+  baseUrl: string;
+  fetchedAt: number;
+  pickerSessionId?: string;
+}
+
+type RefreshOutcome = "listed" | "gone" | "failed";
+
+// Fresher baseUrls than the photos carry, by photo id. Shared by every
+// consumer so one refresh serves the grid, the analyzer and diagnostics.
+const tracked = new Map<string, TrackedBaseUrl>();
+
+// Picker sessions being listed again, so concurrent resolves share a listing
+const refreshes = new Map<string, Promise<RefreshOutcome>>();
+
+// Photos whose picker session has ended; only picking them again brings
+// their URLs back, so they are not refreshed until then
+const needsRepick = new Set<string>();
+const repickListeners = new Set<(photoIds: string[]) => void>();
+
+function latest(photo: SelectedPhoto): TrackedBaseUrl {
+  return tracked.get(photo.id) ?? {
+    baseUrl: photo.baseUrl,
+    fetchedAt: photo.baseUrlFetchedAt ?? 0,
+    pickerSessionId: photo.pickerSessionId
+  };
+}
+
+function isStale(photo: SelectedPhoto): boolean {
+  return photo.source !== "local"
+    && !needsRepick.has(photo.id)
+    && Date.now() - latest(photo).fetchedAt >= BASE_URL_TTL_MS;
+}
+
+// List a picker session's items again and record their new baseUrls. Items
+// picked with the Picker API can only be read back through their session.
+async function listSession(pickerSessionId: string): Promise<RefreshOutcome> {
+  try {
+    const photos = await getPickedPhotos(pickerSessionId);
+    photos.forEach(photo => tracked.set(photo.id, {
+      baseUrl: photo.baseUrl,
+      fetchedAt: photo.baseUrlFetchedAt ?? Date.now(),
+      pickerSessionId
+    }));
+    return "listed";
+  } catch (error) {
+    if (error instanceof PhotosApiError && SESSION_GONE_STATUSES.has(error.status)) {
+      return "gone";
+    }
+    console.error("Error refreshing photo URLs:", error);
+    return "failed";
+  }
+}
+
+function refreshSession(pickerSessionId: string): Promise<RefreshOutcome> {
+  let refresh = refreshes.get(pickerSessionId);
+  if (!refresh) {
+    refresh = listSession(pickerSessionId).finally(() => refreshes.delete(pickerSessionId));
+    refreshes.set(pickerSessionId, refresh);
+  }
+  return refresh;
+}
+
+// Refresh stale photos through the sessions they were picked in. Photos
+// whose session failed to answer keep their old URL until the retry delay;
+// those it no longer has (or that have no session) must be picked again.
+async function refreshStale(photos: SelectedPhoto[]) {
+  const sessionIds = new Set(photos.flatMap(photo => latest(photo).pickerSessionId ?? []));
+  const outcomes = new Map(await Promise.all(
+    Array.from(sessionIds, async id => [id, await refreshSession(id)] as const)
+  ));
+
+  const retryAt = Date.now() - BASE_URL_TTL_MS + RETRY_DELAY_MS;
+  for (const photo of photos.filter(isStale)) {
+    const sessionId = latest(photo).pickerSessionId;
+    if (sessionId && outcomes.get(sessionId) === "failed") {
+      tracked.set(photo.id, { ...latest(photo), fetchedAt: retryAt });
+    } else {
+      needsRepick.add(photo.id);
+    }
+  }
+}
+
+/**
+ * URLs for photos at the given size, refreshing any Google baseUrl that has
+ * expired (or whose fetch time is unknown, as for reopened sessions) by
+ * listing its picker session again. A failed refresh falls back to the last
+ * URL; photos whose session has ended keep it and are reported to
+ * onRepickNeeded listeners.
+ */
+export async function resolvePhotoUrls(
+  photos: SelectedPhoto[],
+  width: number,
+  height = width
+): Promise<Map<string, string>> {
+  const stale = photos.filter(isStale);
+  if (stale.length > 0) {
+    await refreshStale(stale);
+  }
+
+  // Reported on every resolve, so a view opened later learns of them too
+  const lost = photos.filter(photo => needsRepick.has(photo.id)).map(photo => photo.id);
+  if (lost.length > 0) {
+    repickListeners.forEach(listener => listener(lost));
+  }
+
+  return new Map(photos.map(photo => [
+    photo.id,
+    photoUrl({ ...photo, baseUrl: latest(photo).baseUrl }, width, height)
+  ]));
+}
+
+export async function resolvePhotoUrl(photo: SelectedPhoto, width: number, height = width): Promise<string> {
+  const urls = await resolvePhotoUrls([photo], width, height);
+  return urls.get(photo.id) as string;
+}
+
+// Mark a photo's baseUrl as expired, e.g. after the image failed to load
+// with a 403, so the next resolve fetches a new one
+export function invalidatePhotoUrl(photo: SelectedPhoto) {
+  if (photo.source !== "local") {
+    tracked.set(photo.id, { ...latest(photo), fetchedAt: 0 });
+  }
+}
+
+// Take the URLs of freshly picked photos over any tracked for the same ids,
+// so they refresh through the new picker session from now on
+export function recordPickedPhotos(photos: SelectedPhoto[]) {
+  photos.forEach(photo => {
+    needsRepick.delete(photo.id);
+    tracked.set(photo.id, {
+      baseUrl: photo.baseUrl,
+      fetchedAt: photo.baseUrlFetchedAt ?? Date.now(),
+      pickerSessionId: photo.pickerSessionId
+    });
+  });
+}
+
+// Call the listener with the ids of photos that have to be picked again;
+// returns a function that stops listening
+export function onRepickNeeded(listener: (photoIds: string[]) => void): () => void {
+  repickListeners.add(listener);
+  return () => {
+    repickListeners.delete(listener);
+  };
+}
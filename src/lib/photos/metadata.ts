@@ -0,0 +1,104 @@
+import { formatExposureTime } from "@/lib/analysis";
+import type { PhotoMetadata, SelectedPhoto } from "./types";
+
+export type MetadataSortKey = "score" | "captureTime" | "iso" | "exposureTime" | "focalLength";
+
+export const METADATA_SORT_OPTIONS: { value: MetadataSortKey; label: string }[] = [
+  { value: "score", label: "Score" },
+  { value: "captureTime", label: "Capture time" },
+  { value: "iso", label: "ISO" },
+  { value: "exposureTime", label: "Shutter speed" },
+  { value: "focalLength", label: "Focal length" },
+];
+
+export interface MetadataFilter {
+  // null matches every photo
+  camera: string | null;
+  lens: string | null;
+  maxIso: number | null;
+}
+
+export const EMPTY_METADATA_FILTER: MetadataFilter = { camera: null, lens: null, maxIso: null };
+
+// "Canon EOS R5" rather than "Canon Canon EOS R5"; models often repeat the make
+export function describeCamera(metadata: PhotoMetadata | undefined): string | null {
+  const make = metadata?.cameraMake?.trim();
+  const model = metadata?.cameraModel?.trim();
+  if (!model) return make || null;
+  if (!make || model.toLowerCase().startsWith(make.toLowerCase().split(" ")[0])) return model;
+  return `${make} ${model}`;
+}
+
+// One-line summary of the exposure, e.g. "50mm · f/1.8 · 1/250s · ISO 100"
+export function describeCaptureSettings(metadata: PhotoMetadata | undefined): string | null {
+  if (!metadata) return null;
+
+  const parts = [
+    metadata.focalLength && `${Math.round(metadata.focalLength)}mm`,
+    metadata.aperture && `f/${Math.round(metadata.aperture * 10) / 10}`,
+    metadata.exposureTime && formatExposureTime(metadata.exposureTime),
+    metadata.iso && `ISO ${metadata.iso}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
+
+// Value a photo is sorted by, or undefined when it lacks that field
+function sortValue(photo: SelectedPhoto | undefined, key: Exclude<MetadataSortKey, "score">): number | undefined {
+  switch (key) {
+    case "captureTime":
+      return photo?.creationTime ? Date.parse(photo.creationTime) : undefined;
+    case "iso":
+      return photo?.metadata?.iso;
+    case "exposureTime":
+      return photo?.metadata?.exposureTime;
+    case "focalLength":
+      return photo?.metadata?.focalLength35mm ?? photo?.metadata?.focalLength;
+  }
+}
+
+/**
+ * Filter items by their photo's camera, lens and ISO, then order them by a
+ * metadata field (ascending). Sorting by score keeps the incoming order;
+ * photos missing the sort field go last, in their incoming order.
+ */
+export function applyMetadataView<T extends { photoId: string }>(
+  items: T[],
+  photoById: Map<string, SelectedPhoto>,
+  sortKey: MetadataSortKey,
+  filter: MetadataFilter
+): T[] {
+  const filtered = items.filter(item => {
+    const metadata = photoById.get(item.photoId)?.metadata;
+    if (filter.camera !== null && describeCamera(metadata) !== filter.camera) return false;
+    if (filter.lens !== null && metadata?.lensModel !== filter.lens) return false;
+    if (filter.maxIso !== null && (metadata?.iso === undefined || metadata.iso > filter.maxIso)) return false;
+    return true;
+  });
+
+  if (sortKey === "score") {
+    return filtered;
+  }
+
+  const keyed = filtered.map(item => ({ item, value: sortValue(photoById.get(item.photoId), sortKey) }));
+  // Stable sort keeps score order among equal values
+  return keyed
+    .sort((a, b) => {
+      if (a.value === undefined || b.value === undefined) {
+        return (a.value === undefined ? 1 : 0) - (b.value === undefined ? 1 : 0);
+      }
+      return a.value - b.value;
+    })
+    .map(({ item }) => item);
+}
+
+// Distinct cameras and lenses among the photos, for the filter menus
+export function metadataFacets(photos: SelectedPhoto[]): { cameras: string[]; lenses: string[] } {
+  const cameras = new Set<string>();
+  const lenses = new Set<string>();
+  for (const photo of photos) {
+    const camera = describeCamera(photo.metadata);
+    if (camera) cameras.add(camera);
+    if (photo.metadata?.lensModel) lenses.add(photo.metadata.lensModel);
+  }
+  return { cameras: Array.from(cameras).sort(), lenses: Array.from(lenses).sort() };
+}
@@ -0,0 +1,17 @@
+import type { SelectedPhoto } from "@/lib/photos/types";
+
+/**
+ * Same-origin URL that serves a Google item's bytes through our content
+ * proxy, since Picker baseUrls only answer requests carrying the user's
+ * token. The Google URL is the last query value, so the usual size suffix
+ * ("=w400-h400") appended by callers lands on it unchanged.
+ */
+export function contentProxyUrl(baseUrl: string): string {
+  return `/api/photos/content?url=${encodeURIComponent(baseUrl)}`;
+}
+
+// URL of a photo scaled to fit the given box. Google baseUrls take size
+// parameters; local object URLs always serve the original file.
+export function photoUrl(photo: SelectedPhoto, width: number, height = width): string {
+  return photo.source === "local" ? photo.baseUrl : `${photo.baseUrl}=w${width}-h${height}`;
+}
@@ -0,0 +1,140 @@
+import { googleApiRequest } from "./google-request";
+import { contentProxyUrl } from "./photo-url";
+import type { PhotoMetadata, PickerSession, SelectedPhoto } from "./types";
+
+// Overridable so the proxy routes can be exercised against a local stub
+const PICKER_API_URL = process.env.GOOGLE_PHOTOS_PICKER_API_URL ?? "https://photospicker.googleapis.com";
+
+// Fallbacks when Google omits the polling config
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+const DEFAULT_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Page size for listing picked items (the API maximum)
+const PAGE_SIZE = 100;
+
+interface PickingSessionResponse {
+  id: string;
+  pickerUri: string;
+  mediaItemsSet?: boolean;
+  pollingConfig?: {
+    pollInterval?: string;
+    timeoutIn?: string;
+  };
+}
+
+interface PickedMediaItem {
+  id: string;
+  createTime?: string;
+  type: "PHOTO" | "VIDEO" | "TYPE_UNSPECIFIED";
+  mediaFile: {
+    baseUrl: string;
+    mimeType: string;
+    filename: string;
+    mediaFileMetadata?: {
+      width?: number;
+      height?: number;
+      cameraMake?: string;
+      cameraModel?: string;
+      photoMetadata?: {
+        focalLength?: number;
+        apertureFNumber?: number;
+        isoEquivalent?: number;
+        // Duration string such as "0.008s"
+        exposureTime?: string;
+      };
+    };
+  };
+}
+
+// Parse a protobuf Duration such as "5s" or "1.5s" into milliseconds
+function parseDuration(duration: string | undefined, fallbackMs: number): number {
+  const seconds = duration ? parseFloat(duration) : NaN;
+  return Number.isFinite(seconds) ? Math.round(seconds * 1000) : fallbackMs;
+}
+
+// Google's capture metadata in the shape EXIF import produces. The Picker API
+// does not expose lens or location.
+function toPhotoMetadata(item: PickedMediaItem): PhotoMetadata {
+  const file = item.mediaFile.mediaFileMetadata;
+  const photo = file?.photoMetadata;
+  const exposureTime = photo?.exposureTime ? parseFloat(photo.exposureTime) : NaN;
+
+  return {
+    cameraMake: file?.cameraMake,
+    cameraModel: file?.cameraModel,
+    width: file?.width,
+    height: file?.height,
+    iso: photo?.isoEquivalent,
+    exposureTime: Number.isFinite(exposureTime) && exposureTime > 0 ? exposureTime : undefined,
+    aperture: photo?.apertureFNumber,
+    focalLength: photo?.focalLength
+  };
+}
+
+function toPickerSession(session: PickingSessionResponse): PickerSession {
+  return {
+    id: session.id,
+    pickerUri: session.pickerUri,
+    mediaItemsSet: session.mediaItemsSet ?? false,
+    pollIntervalMs: parseDuration(session.pollingConfig?.pollInterval, DEFAULT_POLL_INTERVAL_MS),
+    timeoutMs: parseDuration(session.pollingConfig?.timeoutIn, DEFAULT_TIMEOUT_MS)
+  };
+}
+
+export async function createPickerSession(accessToken: string): Promise<PickerSession> {
+  const session = await googleApiRequest<PickingSessionResponse>(PICKER_API_URL, accessToken, "/v1/sessions", {
+    method: "POST",
+    body: JSON.stringify({})
+  });
+  return toPickerSession(session);
+}
+
+export async function getPickerSession(accessToken: string, sessionId: string): Promise<PickerSession> {
+  const session = await googleApiRequest<PickingSessionResponse>(
+    PICKER_API_URL,
+    accessToken,
+    `/v1/sessions/${encodeURIComponent(sessionId)}`
+  );
+  return toPickerSession(session);
+}
+
+export async function deletePickerSession(accessToken: string, sessionId: string): Promise<void> {
+  await googleApiRequest(PICKER_API_URL, accessToken, `/v1/sessions/${encodeURIComponent(sessionId)}`, {
+    method: "DELETE"
+  });
+}
+
+// Every photo picked in a session, following pagination. Videos are skipped
+// since they cannot be analyzed.
+export async function listPickedPhotos(accessToken: string, sessionId: string): Promise<SelectedPhoto[]> {
+  const photos: SelectedPhoto[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const params = new URLSearchParams({ sessionId, pageSize: String(PAGE_SIZE) });
+    if (pageToken) params.set("pageToken", pageToken);
+
+    const page = await googleApiRequest<{ mediaItems?: PickedMediaItem[]; nextPageToken?: string }>(
+      PICKER_API_URL,
+      accessToken,
+      `/v1/mediaItems?${params}`
+    );
+
+    for (const item of page.mediaItems ?? []) {
+      if (item.type !== "PHOTO") continue;
+      photos.push({
+        id: item.id,
+        baseUrl: contentProxyUrl(item.mediaFile.baseUrl),
+        filename: item.mediaFile.filename,
+        mimeType: item.mediaFile.mimeType,
+        creationTime: item.createTime,
+        metadata: toPhotoMetadata(item),
+        baseUrlFetchedAt: Date.now(),
+        pickerSessionId: sessionId
+      });
+    }
+    pageToken = page.nextPageToken;
+  } while (pageToken);
+
+  return photos;
+}
@@ -0,0 +1,36 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getGoogleAccess } from "@/lib/auth";
+import { rateLimit } from "@/lib/rate-limit";
+import { PhotosApiError } from "./errors";
+
+// Photos API calls allowed per user per minute through the proxy
+const PHOTOS_CALLS_PER_MINUTE = 120;
+
+/**
+ * Run a Google Photos call on behalf of the signed-in user and turn the
+ * outcome into a JSON response. Missing or expired Google access is a 401 so
+ * the client can prompt re-auth; Photos API errors keep their status.
+ */
+export async function proxyPhotosCall<T>(
+  request: NextRequest,
+  call: (accessToken: string) => Promise<T>
+): Promise<NextResponse> {
+  const access = await getGoogleAccess(request);
+  if (!access) {
+    return NextResponse.json({ error: "Google access expired, sign in again" }, { status: 401 });
+  }
+
+  if (!rateLimit(`photos:${access.userKey}`, PHOTOS_CALLS_PER_MINUTE, 60_000)) {
+    return NextResponse.json({ error: "Too many Google Photos requests, try again shortly" }, { status: 429 });
+  }
+
+  try {
+    return NextResponse.json(await call(access.accessToken));
+  } catch (error) {
+    if (error instanceof PhotosApiError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error calling Google Photos:", error);
+    return NextResponse.json({ error: "Google Photos request failed" }, { status: 502 });
+  }
+}
@@ -0,0 +1,55 @@
+// Google OAuth scopes the app requests, with the reason shown on the
+// sign-in page. Required scopes must all be granted to use the app.
+export interface OAuthScope {
+  scope: string;
+  label: string;
+  reason: string;
+  required: boolean;
+}
+
+export const GOOGLE_SCOPES: OAuthScope[] = [
+  {
+    scope: "openid email profile",
+    label: "Your name and email address",
+    reason: "Identifies your account so your analysis sessions and scoring profiles are saved for you.",
+    required: true
+  },
+  {
+    scope: "https://www.googleapis.com/auth/photospicker.mediaitems.readonly",
+    label: "View the photos you pick",
+    reason: "Loads only the photos you choose in the Google Photos picker so they can be analyzed. The rest of your library stays private.",
+    required: true
+  },
+  {
+    scope: "https://www.googleapis.com/auth/photoslibrary.appendonly",
+    label: "Add to your Google Photos library",
+    reason: "Creates the album of your best photos. The app cannot delete or edit existing photos.",
+    required: true
+  },
+  {
+    scope: "https://www.googleapis.com/auth/photoslibrary.readonly.appcreateddata",
+    label: "See albums created by this app",
+    reason: "Lists the albums the app made so you can add to one again, and skips photos already in it.",
+    required: true
+  },
+  {
+    scope: "https://www.googleapis.com/auth/photoslibrary.edit.appcreateddata",
+    label: "Manage albums created by this app",
+    reason: "Adds photos to albums the app made for you. Albums you created yourself are untouched.",
+    required: true
+  }
+];
+
+// Space-separated scope string for the authorization request
+export const GOOGLE_SCOPE_PARAM = GOOGLE_SCOPES.map(({ scope }) => scope).join(" ");
+
+// Required scopes missing from a granted scope string (as returned by Google)
+export function missingScopes(granted: string | undefined): OAuthScope[] {
+  const grantedScopes = new Set((granted ?? "").split(" "));
+  return GOOGLE_SCOPES.filter(({ scope, required }) =>
+    required && scope.split(" ").some(part =>
+      // Google reports the OpenID scopes by their full URLs
+      !grantedScopes.has(part) && !grantedScopes.has(`https://www.googleapis.com/auth/userinfo.${part}`)
+    )
+  );
+}
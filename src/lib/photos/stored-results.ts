@@ -0,0 +1,75 @@
+import type { AnalysisResult } from "@/lib/analysis";
+import { resolvePhotoUrls } from "./media-urls";
+import type { SelectedPhoto } from "./types";
+
+// Size of the rendition a missing colour signature is computed from
+const SIGNATURE_SIZE = 128;
+
+// Results already stored for these photos; analysis goes ahead without them
+// if the lookup fails
+export async function fetchStoredResults(photoIds: string[]): Promise<AnalysisResult[]> {
+  try {
+    const response = await fetch("/api/analysis/lookup", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ photoIds })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch stored results: ${response.statusText}`);
+    }
+
+    const data = await response.json() as { results: AnalysisResult[] };
+    return data.results;
+  } catch (error) {
+    console.error("Error fetching stored results:", error);
+    return [];
+  }
+}
+
+// Save a result as soon as it arrives so an interrupted run keeps its progress
+export async function saveResult(photo: SelectedPhoto, result: AnalysisResult) {
+  try {
+    const response = await fetch("/api/analysis", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ entries: [{ photo, result }] })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to save result: ${response.statusText}`);
+    }
+  } catch (error) {
+    console.error(`Error saving result for photo ${photo.id}:`, error);
+  }
+}
+
+/**
+ * Give stored results saved before colour signatures existed one from a
+ * thumbnail, in place, saving it so the next load has it. Failures only cost
+ * variety. Resolves to the number of results that got a signature.
+ */
+export async function fillColorSignatures(
+  results: AnalysisResult[],
+  photos: SelectedPhoto[],
+  persistResults: boolean
+): Promise<number> {
+  const photoById = new Map(photos.map(photo => [photo.id, photo]));
+  const missing = results.filter(result => !result.colorSignature && photoById.has(result.photoId));
+  if (missing.length === 0) return 0;
+
+  // Loaded on demand: the pipeline pulls in the TensorFlow.js models
+  const { loadColorSignature } = await import("@/lib/analysis/pipeline");
+  const urls = await resolvePhotoUrls(missing.map(result => photoById.get(result.photoId) as SelectedPhoto), SIGNATURE_SIZE);
+  let filled = 0;
+  await Promise.all(missing.map(async result => {
+    try {
+      result.colorSignature = await loadColorSignature(urls.get(result.photoId) as string);
+      filled++;
+      if (persistResults) saveResult(photoById.get(result.photoId) as SelectedPhoto, result);
+    } catch (error) {
+      console.error(`Error reading colours of photo ${result.photoId}:`, error);
+    }
+  }));
+  return filled;
+}
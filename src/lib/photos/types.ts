@@ -0,0 +1,74 @@
+import type { CaptureSettings } from "@/lib/analysis";
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+// Camera and capture data from EXIF or Google's media metadata
+export interface PhotoMetadata extends CaptureSettings {
+  cameraMake?: string;
+  cameraModel?: string;
+  lensModel?: string;
+  width?: number;
+  height?: number;
+  location?: Coordinates;
+}
+
+// Define types for selected photos
+export interface SelectedPhoto {
+  id: string;
+  baseUrl: string;
+  filename: string;
+  mimeType: string;
+  // ISO 8601 capture time, when the source provides one
+  creationTime?: string;
+  // Where the photo comes from; Google Photos when unset
+  source?: "google" | "local";
+  metadata?: PhotoMetadata;
+  // When Google issued baseUrl (ms since epoch); baseUrls expire after about
+  // an hour, and an unknown time is treated as expired
+  baseUrlFetchedAt?: number;
+  // Picker session the photo was picked in; expired baseUrls are refreshed by
+  // listing that session's items again
+  pickerSessionId?: string;
+}
+
+// Google Photos album created from a selection
+export interface Album {
+  id: string;
+  title: string;
+  productUrl: string;
+  // Present when listing existing albums
+  mediaItemsCount?: number;
+}
+
+// Media item as returned by the Library API (only the fields we use)
+// Where a text enrichment goes: at either end, or right after one of the album's items
+export type EnrichmentPosition =
+  | { position: "FIRST_IN_ALBUM" | "LAST_IN_ALBUM" }
+  | { position: "AFTER_MEDIA_ITEM"; relativeMediaItemId: string };
+
+export interface MediaItem {
+  id: string;
+  baseUrl: string;
+  filename: string;
+  mimeType: string;
+  mediaMetadata?: {
+    creationTime?: string;
+    width?: string;
+    height?: string;
+  };
+}
+
+// Photos Picker session as handed to the browser
+export interface PickerSession {
+  id: string;
+  // Where the user picks photos (opened in a new window)
+  pickerUri: string;
+  // Set once the user has finished picking
+  mediaItemsSet: boolean;
+  pollIntervalMs: number;
+  // How long the session keeps waiting for the user
+  timeoutMs: number;
+}
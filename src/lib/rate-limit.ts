@@ -0,0 +1,41 @@
+interface RateWindow {
+  startedAt: number;
+  windowMs: number;
+  count: number;
+}
+
+const windows = new Map<string, RateWindow>();
+
+// How often expired windows are swept out of memory
+const SWEEP_INTERVAL_MS = 60_000;
+let lastSweep = 0;
+
+// Drop windows that have ended, so keys of past users do not pile up
+function sweepExpired(now: number) {
+  if (now - lastSweep < SWEEP_INTERVAL_MS) return;
+  lastSweep = now;
+  for (const [key, window] of windows) {
+    if (now - window.startedAt >= window.windowMs) {
+      windows.delete(key);
+    }
+  }
+}
+
+/**
+ * Fixed-window rate limiter. State lives in the server instance's memory, so
+ * it caps bursts from a single client rather than enforcing a global quota.
+ * Returns true when the call is allowed.
+ */
+export function rateLimit(key: string, limit: number, windowMs: number): boolean {
+  const now = Date.now();
+  sweepExpired(now);
+  const current = windows.get(key);
+
+  if (!current || now - current.startedAt >= windowMs) {
+    windows.set(key, { startedAt: now, windowMs, count: 1 });
+    return true;
+  }
+
+  current.count++;
+  return current.count <= limit;
+}
@@ -0,0 +1,27 @@
+import type { AnalysisResult } from "@/lib/analysis";
+import type { Album, SelectedPhoto } from "@/lib/photos/types";
+
+// Curation choices saved with a session
+export interface AnalysisSessionState {
+  selectedPhotoIds: string[];
+  // User overrides of the frame shown for a near-duplicate cluster
+  clusterPicks: Record<string, string>;
+  album: Album | null;
+}
+
+// Row in the session history list
+export interface AnalysisSessionSummary {
+  id: string;
+  name: string;
+  photoCount: number;
+  // Photos with a result from the current analyzer version
+  analyzedCount: number;
+  albumTitle: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AnalysisSession extends AnalysisSessionSummary, AnalysisSessionState {
+  photos: SelectedPhoto[];
+  results: AnalysisResult[];
+}
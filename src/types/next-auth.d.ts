@@ -0,0 +1,22 @@
+import "next-auth";
+import "next-auth/jwt";
+
+// Set when the Google access token could not be refreshed; the user has to
+// sign in again
+type AuthError = "RefreshAccessTokenError";
+
+declare module "next-auth" {
+  interface Session {
+    error?: AuthError;
+  }
+}
+
+declare module "next-auth/jwt" {
+  interface JWT {
+    accessToken?: string;
+    refreshToken?: string;
+    // Access token expiry, in seconds since the epoch
+    expiresAt?: number;
+    error?: AuthError;
+  }
+}